@@ -1,36 +1,81 @@
 /**
  * Export the blogger dump to data/creators.json (master list format).
  * Run from repo root: bun run scripts/export-creators.ts [--data-dir <path>]
+ * Without the blogger directory: bun run scripts/export-creators.ts --from-list
+ * rewrites the current data/creators.json, giving entries without a hexId the id derived from their blog URL (the
+ * one repos created from them already have), so the id no longer changes when the URL does.
  */
 
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
-import { writeFile } from "node:fs/promises";
-import { parseBloggerDirectory } from "../src/parser";
+import { readFile, writeFile } from "node:fs/promises";
+import { hexIdFromBlogUrl, isHexId, parseBloggerDirectory } from "../src/parser";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const ROOT = join(__dirname, "..");
 const DEFAULT_DATA_DIR = join(ROOT, "Private & Shared", "Orange TPOT Directory");
+const OUT_PATH = join(ROOT, "data", "creators.json");
 
-async function main() {
-  const dataDir = process.argv.includes("--data-dir")
-    ? process.argv[process.argv.indexOf("--data-dir") + 1]
-    : DEFAULT_DATA_DIR;
+interface ListEntry {
+  hexId?: string;
+  displayName: string;
+  blogUrl: string;
+  blogName?: string;
+  followUrl?: string;
+  imageUrl?: string;
+}
 
-  const bloggers = await parseBloggerDirectory(dataDir);
-  const withFeed = bloggers.filter((b) => b.hasFeed);
-
-  const list = withFeed.map((b) => ({
-    displayName: b.displayName,
-    blogUrl: b.blogUrl ?? "",
-    ...(b.blogName ? { blogName: b.blogName } : {}),
-    ...(b.followUrl ? { followUrl: b.followUrl } : {}),
-    ...(b.imageUrl ? { imageUrl: b.imageUrl } : {}),
+async function readList(): Promise<ListEntry[]> {
+  try {
+    const raw = JSON.parse(await readFile(OUT_PATH, "utf-8"));
+    return Array.isArray(raw) ? raw : [];
+  } catch {
+    return [];
+  }
+}
+
+async function fromList(): Promise<ListEntry[]> {
+  const list = await readList();
+  if (list.length === 0) throw new Error(`No entries in ${OUT_PATH}`);
+  return list.map(({ hexId, ...rest }) => ({
+    hexId: isHexId(hexId) ? hexId.toLowerCase() : hexIdFromBlogUrl(rest.blogUrl ?? ""),
+    ...rest,
   }));
+}
+
+async function fromDirectory(dataDir: string): Promise<ListEntry[]> {
+  const bloggers = await parseBloggerDirectory(dataDir);
+  const list = bloggers
+    .filter((b) => b.hasFeed)
+    .map((b) => ({
+      hexId: b.hexId,
+      displayName: b.displayName,
+      blogUrl: b.blogUrl ?? "",
+      ...(b.blogName ? { blogName: b.blogName } : {}),
+      ...(b.followUrl ? { followUrl: b.followUrl } : {}),
+      ...(b.imageUrl ? { imageUrl: b.imageUrl } : {}),
+    }));
+
+  // Entries pinned with --from-list get their directory id now; repos created from them need reconcile-ids
+  const previous = new Map((await readList()).map((e) => [e.blogUrl, e.hexId]));
+  const changed = list.filter((e) => previous.has(e.blogUrl) && previous.get(e.blogUrl) !== e.hexId).length;
+  if (changed > 0) {
+    console.log(
+      `${changed} creator(s) got a new hexId. Fix existing repos with: bun run src/cli.ts reconcile-ids --data-dir <path> --apply`
+    );
+  }
+  return list;
+}
+
+async function main() {
+  const list = process.argv.includes("--from-list")
+    ? await fromList()
+    : await fromDirectory(
+        process.argv.includes("--data-dir") ? process.argv[process.argv.indexOf("--data-dir") + 1] : DEFAULT_DATA_DIR
+      );
 
-  const outPath = join(ROOT, "data", "creators.json");
-  await writeFile(outPath, JSON.stringify(list, null, 2), "utf-8");
-  console.log(`Wrote ${list.length} creators to ${outPath}`);
+  await writeFile(OUT_PATH, JSON.stringify(list, null, 2), "utf-8");
+  console.log(`Wrote ${list.length} creators to ${OUT_PATH}`);
 }
 
 main().catch((err) => {
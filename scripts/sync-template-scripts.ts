@@ -0,0 +1,59 @@
+/**
+ * Copy the scripts src/ shares with the templates from src/ into templates/<type>/scripts/, so creator and index repos
+ * keep dependency-free copies, src/ never imports templates and the two templates never drift apart.
+ * Edit the src/ file, then run from repo root: bun run scripts/sync-template-scripts.ts [--check]
+ * With --check nothing is written; exits 1 if a template copy is out of date.
+ */
+
+import { join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { readFile, writeFile } from "node:fs/promises";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = join(__dirname, "..");
+
+/** src/<name> files and the templates whose scripts/<name> is a copy of them. */
+export const SHARED_TEMPLATE_SCRIPTS: Record<string, ("creator" | "index")[]> = {
+  "slug.ts": ["creator"],
+  "native-feed.ts": ["creator"],
+  "sitemap-archive.ts": ["creator"],
+  "post-stats.ts": ["creator", "index"],
+};
+
+/** Template copy of a shared src/ file: a generated-file notice, then the source unchanged. */
+export function templateCopy(name: string, source: string): string {
+  return `// Generated from src/${name} in orange-tpot-tooling (scripts/sync-template-scripts.ts); edit it there.\n${source}`;
+}
+
+/** Shared scripts whose template copy differs from src/. With write, the copies are rewritten. */
+export async function syncTemplateScripts(options: { write?: boolean } = {}): Promise<string[]> {
+  const stale: string[] = [];
+  for (const [name, types] of Object.entries(SHARED_TEMPLATE_SCRIPTS)) {
+    const expected = templateCopy(name, await readFile(join(ROOT, "src", name), "utf-8"));
+    for (const type of types) {
+      const dest = join(ROOT, "templates", type, "scripts", name);
+      const current = await readFile(dest, "utf-8").catch(() => null);
+      if (current === expected) continue;
+      stale.push(`templates/${type}/scripts/${name}`);
+      if (options.write) await writeFile(dest, expected, "utf-8");
+    }
+  }
+  return stale;
+}
+
+async function main() {
+  const check = process.argv.includes("--check");
+  const stale = await syncTemplateScripts({ write: !check });
+  if (check && stale.length > 0) {
+    console.error(`Out of date (run bun run scripts/sync-template-scripts.ts):\n${stale.map((s) => `  ${s}`).join("\n")}`);
+    process.exit(1);
+  }
+  console.log(stale.length ? `Updated ${stale.join(", ")}` : "Template scripts are up to date");
+}
+
+if (import.meta.main) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,322 @@
+/**
+ * build-site: render an index repo into a static site/ folder (GitHub Pages ready).
+ * index.html is the creator directory (from creators/manifest.json), creators/<slug>/index.html lists a creator's
+ * posts by date, and creators/<slug>/posts/<file>.html renders subrepos/<slug>/posts/<file>.md with a link back to
+ * the original. Old slugs (manifest aliases) get redirect pages. All links are relative so the site works from any
+ * base path; feeds/ is copied in when present.
+ */
+
+import { cp, mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { escapeHtml, markdownToHtml } from "./markdown";
+
+/** File written into the output folder so a rebuild knows it may replace it. */
+const SITE_MARKER = ".orange-tpot-site";
+
+export interface BuildSiteOptions {
+  /** Output folder (default: <indexDir>/site) */
+  outputDir?: string;
+  /** Site title (default: "Creator index") */
+  title?: string;
+}
+
+export interface BuildSiteResult {
+  outputDir: string;
+  creators: number;
+  posts: number;
+}
+
+/** Manifest fields the site uses (see templates/index/scripts/update-manifest.ts). */
+interface ManifestEntry {
+  slug: string;
+  displayName: string;
+  blogName?: string | null;
+  blogUrl?: string | null;
+  followUrl?: string | null;
+  imageUrl?: string | null;
+  repo?: string | null;
+  /** Previous slugs; creators/<alias>/ redirects to the current pages */
+  aliases?: string[];
+  postCount?: number;
+  firstPostDate?: string | null;
+  latestPostDate?: string | null;
+}
+
+interface SitePost {
+  baseName: string;
+  title: string;
+  link: string | null;
+  published: string | null;
+  paywalled: boolean;
+  /** Markdown body without the "# title / Published / Link" header */
+  body: string;
+}
+
+const STYLE = `:root { --fg: #1d1d1f; --muted: #6e6e73; --accent: #e8590c; --bg: #fff; --card: #f6f6f7; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 17px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: var(--fg); background: var(--bg); }
+header.site, main, footer { max-width: 46rem; margin: 0 auto; padding: 0 1.25rem; }
+header.site { display: flex; justify-content: space-between; align-items: baseline; padding-top: 1.5rem; }
+header.site a { color: var(--fg); text-decoration: none; font-weight: 600; }
+a { color: var(--accent); }
+.muted, time { color: var(--muted); font-size: 0.9em; }
+.directory { list-style: none; padding: 0; display: grid; grid-template-columns: repeat(auto-fill, minmax(13rem, 1fr)); gap: 1rem; }
+.directory li { background: var(--card); border-radius: 0.75rem; padding: 1rem; }
+.directory a { color: var(--fg); text-decoration: none; }
+.avatar { width: 3rem; height: 3rem; border-radius: 50%; object-fit: cover; background: #ddd; display: inline-flex; align-items: center; justify-content: center; font-weight: 600; color: var(--muted); }
+.creator-head { display: flex; gap: 1rem; align-items: center; }
+.posts { list-style: none; padding: 0; }
+.posts li { display: flex; gap: 1rem; padding: 0.25rem 0; }
+.posts time { flex: 0 0 6.5rem; }
+.badge { font-size: 0.75em; color: var(--muted); border: 1px solid currentColor; border-radius: 0.25rem; padding: 0 0.25rem; }
+article img { max-width: 100%; height: auto; }
+article pre { background: var(--card); padding: 1rem; overflow-x: auto; }
+article blockquote { margin-left: 0; padding-left: 1rem; border-left: 3px solid var(--card); color: var(--muted); }
+article table { border-collapse: collapse; }
+article td, article th { border: 1px solid #ddd; padding: 0.25rem 0.5rem; }
+footer { padding: 2rem 1.25rem; }
+`;
+
+function page(title: string, body: string, root: string, siteTitle: string, hasFeeds: boolean): string {
+  const feedLink = hasFeeds
+    ? `\n<link rel="alternate" type="application/rss+xml" title="${escapeHtml(siteTitle)}" href="${root}feeds/all.xml">`
+    : "";
+  const feedNav = hasFeeds ? `<a href="${root}feeds/all.xml">RSS</a>` : "";
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${root}style.css">${feedLink}
+</head>
+<body>
+<header class="site"><a href="${root}index.html">${escapeHtml(siteTitle)}</a>${feedNav}</header>
+<main>
+${body}
+</main>
+<footer class="muted">Archived with <a href="https://github.com/metaspn/orange-tpot-tooling">orange-tpot</a>.</footer>
+</body>
+</html>
+`;
+}
+
+/** Stub page that sends visitors (and crawlers, via canonical) to a relative target. */
+function redirectPage(target: string): string {
+  const href = escapeHtml(target);
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta http-equiv="refresh" content="0; url=${href}">
+<link rel="canonical" href="${href}">
+<title>Moved</title>
+</head>
+<body><p>This page has moved to <a href="${href}">${href}</a>.</p></body>
+</html>
+`;
+}
+
+function avatar(entry: ManifestEntry): string {
+  if (entry.imageUrl) return `<img class="avatar" src="${escapeHtml(entry.imageUrl)}" alt="" loading="lazy">`;
+  return `<span class="avatar">${escapeHtml(entry.displayName.trim().charAt(0).toUpperCase() || "?")}</span>`;
+}
+
+function day(iso: string | null | undefined): string {
+  return iso ? iso.slice(0, 10) : "";
+}
+
+/** Keep a file-name-safe page name for a post's baseName. */
+function pageName(baseName: string): string {
+  return baseName.replace(/[^\w.-]+/g, "-");
+}
+
+async function readManifest(indexDir: string): Promise<ManifestEntry[]> {
+  try {
+    const raw = JSON.parse(await readFile(join(indexDir, "creators", "manifest.json"), "utf-8"));
+    if (Array.isArray(raw) && raw.length > 0) return raw as ManifestEntry[];
+  } catch {
+    // fall back to subrepos
+  }
+  const entries = await readdir(join(indexDir, "subrepos"), { withFileTypes: true }).catch(() => []);
+  const out: ManifestEntry[] = [];
+  for (const d of entries) {
+    if (!d.isDirectory()) continue;
+    try {
+      const c = JSON.parse(await readFile(join(indexDir, "subrepos", d.name, "creator.json"), "utf-8")) as ManifestEntry;
+      out.push({ ...c, slug: c.slug || d.name, displayName: c.displayName || d.name });
+    } catch {
+      // not a creator repo
+    }
+  }
+  return out;
+}
+
+/** Posts of a checked-out creator repo, newest first (undated posts last). */
+async function readPosts(repoDir: string): Promise<SitePost[]> {
+  const postsDir = join(repoDir, "posts");
+  const files = (await readdir(postsDir).catch(() => [])).filter((f) => f.endsWith(".md"));
+  const posts: SitePost[] = [];
+  for (const f of files) {
+    const baseName = f.replace(/\.md$/, "");
+    const markdown = await readFile(join(postsDir, f), "utf-8");
+    let meta: { title?: string; link?: string; published?: string | null; paywalled?: boolean } = {};
+    try {
+      meta = JSON.parse(await readFile(join(repoDir, "metadata", `${baseName}.json`), "utf-8"));
+    } catch {
+      // post without metadata: take what the markdown header says
+    }
+    const header = markdown.match(/^# (.*)\n/);
+    const linkLine = markdown.match(/^- \*\*Link:\*\* (.*)$/m);
+    posts.push({
+      baseName,
+      title: meta.title || header?.[1]?.trim() || baseName,
+      link: meta.link || linkLine?.[1]?.trim() || null,
+      published: meta.published ?? (/^\d{4}-\d{2}-\d{2}/.test(baseName) ? baseName.slice(0, 10) : null),
+      paywalled: !!meta.paywalled,
+      body: markdown.replace(/^# .*\n+(?:- \*\*(?:Published|Link):\*\*.*\n)*\n*/, ""),
+    });
+  }
+  return posts.sort((a, b) => (b.published ?? "").localeCompare(a.published ?? "") || a.baseName.localeCompare(b.baseName));
+}
+
+function directoryPage(entries: ManifestEntry[], postCounts: Map<string, number>): string {
+  const cards = entries.map((e) => {
+    const count = postCounts.get(e.slug) ?? e.postCount ?? 0;
+    const latest = e.latestPostDate ? ` · latest ${day(e.latestPostDate)}` : "";
+    const blogName = e.blogName && e.blogName !== e.displayName ? `<div class="muted">${escapeHtml(e.blogName)}</div>` : "";
+    return `<li><a href="creators/${encodeURIComponent(e.slug)}/index.html">
+${avatar(e)}
+<div><strong>${escapeHtml(e.displayName)}</strong></div>
+${blogName}
+<div class="muted">${count} post${count === 1 ? "" : "s"}${latest}</div>
+</a></li>`;
+  });
+  return `<h1>Creators</h1>
+<ul class="directory">
+${cards.join("\n")}
+</ul>`;
+}
+
+function creatorPage(entry: ManifestEntry, posts: SitePost[]): string {
+  const links = [
+    entry.blogUrl ? `<a href="${escapeHtml(entry.blogUrl)}">${escapeHtml(entry.blogName || entry.blogUrl)}</a>` : "",
+    entry.followUrl ? `<a href="${escapeHtml(entry.followUrl)}">Follow</a>` : "",
+    entry.repo ? `<a href="${escapeHtml(entry.repo)}">Archive repo</a>` : "",
+  ].filter(Boolean);
+  const byYear = new Map<string, SitePost[]>();
+  for (const p of posts) {
+    const year = p.published ? p.published.slice(0, 4) : "Undated";
+    if (!byYear.has(year)) byYear.set(year, []);
+    byYear.get(year)!.push(p);
+  }
+  const sections = [...byYear].map(
+    ([year, list]) => `<h2>${year}</h2>
+<ul class="posts">
+${list
+  .map(
+    (p) =>
+      `<li><time>${day(p.published)}</time><span><a href="posts/${pageName(p.baseName)}.html">${escapeHtml(p.title)}</a>${
+        p.paywalled ? ' <span class="badge">paid</span>' : ""
+      }</span></li>`
+  )
+  .join("\n")}
+</ul>`
+  );
+  const empty = posts.length === 0 ? `<p class="muted">No archived posts in this index${entry.repo ? " (see the archive repo)" : ""}.</p>` : "";
+  return `<div class="creator-head">${avatar(entry)}<div><h1>${escapeHtml(entry.displayName)}</h1>
+<div class="muted">${links.join(" · ")}</div></div></div>
+${empty}${sections.join("\n")}`;
+}
+
+function postPage(entry: ManifestEntry, post: SitePost): string {
+  let original = "";
+  if (post.link) {
+    let host = post.link;
+    try {
+      host = new URL(post.link).host;
+    } catch {
+      // keep the raw link text
+    }
+    original = `<p><a href="${escapeHtml(post.link)}">Read the original on ${escapeHtml(host)}</a></p>`;
+  }
+  return `<article>
+<p class="muted"><a href="../index.html">${escapeHtml(entry.displayName)}</a>${post.published ? ` · <time>${day(post.published)}</time>` : ""}</p>
+<h1>${escapeHtml(post.title)}</h1>
+${original}
+${markdownToHtml(post.body)}
+</article>
+${original}`;
+}
+
+/**
+ * Refuse to write into a non-empty folder that is not a previous build (so --output-dir can't wipe unrelated files);
+ * a previous build is removed first so deleted posts don't linger.
+ */
+async function prepareOutputDir(outputDir: string): Promise<void> {
+  if (existsSync(outputDir)) {
+    const entries = await readdir(outputDir);
+    if (entries.length > 0 && !entries.includes(SITE_MARKER)) {
+      throw new Error(`${outputDir} exists and was not created by build-site; choose an empty --output-dir`);
+    }
+    await rm(outputDir, { recursive: true, force: true });
+  }
+  await mkdir(outputDir, { recursive: true });
+  await writeFile(join(outputDir, SITE_MARKER), "", "utf-8");
+}
+
+/** Build the static site for an index repo. */
+export async function buildSite(indexDir: string, options: BuildSiteOptions = {}): Promise<BuildSiteResult> {
+  const outputDir = options.outputDir ?? join(indexDir, "site");
+  const siteTitle = options.title ?? "Creator index";
+  const entries = (await readManifest(indexDir)).sort((a, b) => a.displayName.localeCompare(b.displayName));
+  await prepareOutputDir(outputDir);
+
+  const feedsDir = join(indexDir, "feeds");
+  const hasFeeds = existsSync(feedsDir) && (await stat(feedsDir)).isDirectory();
+  if (hasFeeds) await cp(feedsDir, join(outputDir, "feeds"), { recursive: true });
+
+  const postCounts = new Map<string, number>();
+  let totalPosts = 0;
+  for (const entry of entries) {
+    const creatorDir = join(outputDir, "creators", entry.slug);
+    const posts = await readPosts(join(indexDir, "subrepos", entry.slug));
+    await mkdir(join(creatorDir, "posts"), { recursive: true });
+    for (const post of posts) {
+      await writeFile(
+        join(creatorDir, "posts", `${pageName(post.baseName)}.html`),
+        page(`${post.title} — ${entry.displayName}`, postPage(entry, post), "../../../", siteTitle, hasFeeds),
+        "utf-8"
+      );
+    }
+    await writeFile(
+      join(creatorDir, "index.html"),
+      page(entry.displayName, creatorPage(entry, posts), "../../", siteTitle, hasFeeds),
+      "utf-8"
+    );
+    if (posts.length > 0) postCounts.set(entry.slug, posts.length);
+    totalPosts += posts.length;
+  }
+
+  // Old slugs (rename-creator) keep their URLs working
+  const slugs = new Set(entries.map((e) => e.slug));
+  for (const entry of entries) {
+    for (const alias of entry.aliases ?? []) {
+      if (slugs.has(alias) || !/^[\w.-]+$/.test(alias)) continue;
+      const aliasDir = join(outputDir, "creators", alias);
+      await mkdir(join(aliasDir, "posts"), { recursive: true });
+      const target = `../${encodeURIComponent(entry.slug)}/`;
+      await writeFile(join(aliasDir, "index.html"), redirectPage(`${target}index.html`), "utf-8");
+      for (const f of await readdir(join(outputDir, "creators", entry.slug, "posts"))) {
+        await writeFile(join(aliasDir, "posts", f), redirectPage(`../${target}posts/${f}`), "utf-8");
+      }
+    }
+  }
+
+  await writeFile(join(outputDir, "index.html"), page(siteTitle, directoryPage(entries, postCounts), "", siteTitle, hasFeeds), "utf-8");
+  await writeFile(join(outputDir, "style.css"), STYLE, "utf-8");
+  // GitHub Pages: serve files as-is (no Jekyll processing of _-prefixed paths)
+  await writeFile(join(outputDir, ".nojekyll"), "", "utf-8");
+  return { outputDir, creators: entries.length, posts: totalPosts };
+}
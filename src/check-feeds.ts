@@ -0,0 +1,218 @@
+/**
+ * check-feeds: probe every creator's feedUrls and blogUrl across an index repo and report feed health
+ * (ok, redirected, 404, unreachable, not a feed, no items, stale).
+ * Creators come from subrepos/<slug>/creator.json, plus repos.json entries without a local subrepo
+ * (creator.json fetched from raw.githubusercontent.com for GitHub URLs).
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { probeFeed } from "./feed-probe";
+
+/** Health of one URL, ordered from best to worst (see HEALTH_ORDER). */
+export type FeedHealth =
+  | "ok"
+  | "redirected"
+  | "stale"
+  | "no_items"
+  | "not_feed"
+  | "not_found"
+  | "unreachable"
+  | "missing";
+
+const HEALTH_ORDER: FeedHealth[] = ["ok", "redirected", "stale", "no_items", "not_feed", "not_found", "unreachable", "missing"];
+
+/** Health values that make check-feeds exit non-zero; redirected and stale are warnings. */
+export const FAILING_HEALTH = new Set<FeedHealth>(["no_items", "not_feed", "not_found", "unreachable", "missing"]);
+
+export interface UrlCheck {
+  url: string;
+  finalUrl: string;
+  status: number;
+  health: FeedHealth;
+  itemCount?: number;
+  newestItemDate?: string | null;
+  detail?: string;
+}
+
+export interface CreatorCheck {
+  slug: string;
+  displayName: string;
+  /** Worst health across blog and feeds */
+  health: FeedHealth;
+  blog: UrlCheck | null;
+  feeds: UrlCheck[];
+  /** Why the creator could not be checked (e.g. creator.json not readable) */
+  error?: string;
+}
+
+export interface CheckFeedsOptions {
+  /** Feeds whose newest item is older than this many days are "stale" (default 180). */
+  staleDays?: number;
+  /** Creators checked in parallel (default 8). */
+  concurrency?: number;
+}
+
+interface CreatorJson {
+  displayName?: string;
+  blogUrl?: string | null;
+  feedUrls?: string[];
+  slug?: string;
+}
+
+type ReposEntry = string | { url: string; slug?: string };
+
+function worst(healths: FeedHealth[]): FeedHealth {
+  return healths.reduce<FeedHealth>((a, b) => (HEALTH_ORDER.indexOf(b) > HEALTH_ORDER.indexOf(a) ? b : a), "ok");
+}
+
+/** Compare URLs ignoring a trailing slash, so https://x.com and https://x.com/ are not a redirect. */
+function sameUrl(a: string, b: string): boolean {
+  return a.replace(/\/$/, "") === b.replace(/\/$/, "");
+}
+
+/** raw.githubusercontent.com URL for a file in a GitHub repo URL, or null for non-GitHub URLs. */
+export function githubRawUrl(repoUrl: string, file: string): string | null {
+  const m = repoUrl.trim().match(/^https?:\/\/github\.com\/([^/]+)\/([^/#?]+?)(?:\.git)?\/?$/i);
+  if (!m) return null;
+  return `https://raw.githubusercontent.com/${m[1]}/${m[2]}/HEAD/${file}`;
+}
+
+/** Creators in an index: local subrepos first, then repos.json entries that have no subrepo. */
+export async function loadIndexCreators(indexDir: string): Promise<{ slug: string; creator: CreatorJson | null; error?: string }[]> {
+  const out: { slug: string; creator: CreatorJson | null; error?: string }[] = [];
+  const seen = new Set<string>();
+  const subreposDir = join(indexDir, "subrepos");
+  const entries = await readdir(subreposDir, { withFileTypes: true }).catch(() => []);
+  for (const d of entries) {
+    if (!d.isDirectory() || d.name.startsWith(".")) continue;
+    try {
+      const creator = JSON.parse(await readFile(join(subreposDir, d.name, "creator.json"), "utf-8")) as CreatorJson;
+      out.push({ slug: creator.slug ?? d.name, creator });
+      seen.add(d.name);
+      if (creator.slug) seen.add(creator.slug);
+    } catch {
+      // not a creator repo
+    }
+  }
+
+  let repos: ReposEntry[] = [];
+  try {
+    const raw = JSON.parse(await readFile(join(indexDir, "creators", "repos.json"), "utf-8"));
+    if (Array.isArray(raw)) repos = raw;
+  } catch {
+    // no repos.json
+  }
+  for (const r of repos) {
+    const url = typeof r === "string" ? r : r.url;
+    const slug = (typeof r === "string" ? undefined : r.slug) || url.replace(/\/$/, "").split("/").pop()?.replace(/\.git$/, "") || url;
+    if (seen.has(slug)) continue;
+    seen.add(slug);
+    const rawUrl = githubRawUrl(url, "creator.json");
+    if (!rawUrl) {
+      out.push({ slug, creator: null, error: `no subrepos/${slug} and ${url} is not a GitHub URL` });
+      continue;
+    }
+    try {
+      const res = await fetch(rawUrl);
+      if (!res.ok) throw new Error(`${rawUrl} returned ${res.status}`);
+      out.push({ slug, creator: (await res.json()) as CreatorJson });
+    } catch (err) {
+      out.push({ slug, creator: null, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return out.sort((a, b) => a.slug.localeCompare(b.slug));
+}
+
+async function checkBlog(url: string): Promise<UrlCheck> {
+  try {
+    const res = await fetch(url, { redirect: "follow" });
+    const finalUrl = res.url || url;
+    await res.body?.cancel();
+    if (res.status === 404 || res.status === 410) return { url, finalUrl, status: res.status, health: "not_found" };
+    if (!res.ok) return { url, finalUrl, status: res.status, health: "unreachable", detail: `HTTP ${res.status}` };
+    return { url, finalUrl, status: res.status, health: sameUrl(finalUrl, url) ? "ok" : "redirected" };
+  } catch (err) {
+    return { url, finalUrl: url, status: 0, health: "unreachable", detail: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+async function checkFeed(url: string, staleDays: number): Promise<UrlCheck> {
+  const probe = await probeFeed(url);
+  const base = { url, finalUrl: probe.finalUrl, status: probe.status, itemCount: probe.itemCount, newestItemDate: probe.newestItemDate };
+  if (probe.status === 0) return { ...base, health: "unreachable", detail: probe.error };
+  if (probe.status === 404 || probe.status === 410) return { ...base, health: "not_found" };
+  if (probe.status >= 400) return { ...base, health: "unreachable", detail: probe.error };
+  if (!probe.ok) return { ...base, health: "not_feed", detail: probe.error };
+  if (probe.itemCount === 0) return { ...base, health: "no_items" };
+  if (probe.newestItemDate) {
+    const ageDays = (Date.now() - new Date(probe.newestItemDate).getTime()) / 86_400_000;
+    if (ageDays > staleDays) return { ...base, health: "stale", detail: `last post ${Math.floor(ageDays)} days ago` };
+  }
+  return { ...base, health: sameUrl(probe.finalUrl, url) ? "ok" : "redirected" };
+}
+
+/** Check one creator's blogUrl and every feedUrls entry. */
+export async function checkCreator(slug: string, creator: CreatorJson, options: CheckFeedsOptions = {}): Promise<CreatorCheck> {
+  const staleDays = options.staleDays ?? 180;
+  const blogUrl = (creator.blogUrl || "").trim();
+  const feedUrls = (creator.feedUrls ?? []).filter((u) => u && u.trim());
+  const blog = blogUrl ? await checkBlog(blogUrl) : null;
+  const feeds: UrlCheck[] = [];
+  for (const url of feedUrls) feeds.push(await checkFeed(url, staleDays));
+  const healths = [...(blog ? [blog.health] : []), ...feeds.map((f) => f.health)];
+  if (feedUrls.length === 0) healths.push("missing");
+  return { slug, displayName: creator.displayName ?? slug, health: worst(healths), blog, feeds };
+}
+
+/** Run fn over items with at most `limit` in flight, preserving order. */
+async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]!);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+/** Check every creator in the index. */
+export async function checkIndexFeeds(indexDir: string, options: CheckFeedsOptions = {}): Promise<CreatorCheck[]> {
+  const creators = await loadIndexCreators(indexDir);
+  return mapLimit(creators, options.concurrency ?? 8, async ({ slug, creator, error }): Promise<CreatorCheck> => {
+    if (!creator) return { slug, displayName: slug, health: "missing", blog: null, feeds: [], error };
+    return checkCreator(slug, creator, options);
+  });
+}
+
+/** One line per creator: slug, health, item count, newest post date, and the first problem found. */
+export function formatCheckTable(results: CreatorCheck[]): string {
+  const rows = results.map((r) => {
+    const feed = r.feeds.find((f) => f.health === r.health) ?? r.feeds[0];
+    const problem = [r.blog, ...r.feeds].find((c) => c && c.health === r.health && c.health !== "ok");
+    let detail = "";
+    if (problem) {
+      detail = problem.health === "redirected" ? `${problem.url} → ${problem.finalUrl}` : `${problem.url}${problem.detail ? ` (${problem.detail})` : ""}`;
+    } else if (r.health === "missing") {
+      detail = r.error ?? "no feedUrls in creator.json";
+    }
+    return [
+      r.slug,
+      r.health,
+      feed?.itemCount != null ? String(feed.itemCount) : "-",
+      feed?.newestItemDate ? feed.newestItemDate.slice(0, 10) : "-",
+      detail,
+    ];
+  });
+  const header = ["SLUG", "STATUS", "ITEMS", "LAST POST", "DETAIL"];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i]!.length)));
+  const fmt = (r: string[]) =>
+    r
+      .map((c, i) => (i === r.length - 1 ? c : c.padEnd(widths[i]!)))
+      .join("  ")
+      .trimEnd();
+  return [fmt(header), ...rows.map(fmt)].join("\n");
+}
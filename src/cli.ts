@@ -1,16 +1,25 @@
 #!/usr/bin/env bun
 /**
- * CLI: create-creator (--user <id> | --all), create-index, add-to-index.
+ * CLI: create-creator (--user <id> | --all), create-index, add-to-index, remove-from-index, rename-creator, migrate-slugs, reconcile-ids, check-feeds, refresh-feeds, build-site, search.
  * No args or create-creator without --user/--all → interactive flow.
  */
 
 import { createInterface } from "node:readline";
 import { mkdir } from "node:fs/promises";
+import { existsSync } from "node:fs";
 import { join } from "node:path";
-import { parseBloggerDirectory, findBlogger, bloggerFromManual, type Blogger } from "./parser";
-import { scaffoldCreatorRepo } from "./scaffold-creator";
+import {
+  parseBloggerDirectory,
+  findBlogger,
+  bloggerFromManual,
+  isHexId,
+  resolveSlugCollisions,
+  formatSlugCollisions,
+  type Blogger,
+} from "./parser";
+import { scaffoldCreatorRepo, readExistingSlugOwners, formatScaffoldResults } from "./scaffold-creator";
 import { getFeedUrl } from "./feeds";
-import { getMasterListUrl } from "./config";
+import { getMasterListUrl, getTemplateOverlayDir } from "./config";
 
 const DEFAULT_DATA_DIR = join(process.cwd(), "Private & Shared", "Orange TPOT Directory");
 const DEFAULT_OUTPUT_DIR = join(process.cwd(), "creators");
@@ -30,7 +39,12 @@ function parseArgs(argv: string[]): Record<string, string | boolean> {
     } else if (arg === "--repo" && argv[i + 1]) {
       out["repo"] = argv[++i];
     } else if (arg === "--slug" && argv[i + 1]) {
-      out["slug"] = argv[++i];
+      // Repeatable (remove-from-index --slug a --slug b); joined like a comma list
+      out["slug"] = out["slug"] ? `${out["slug"]},${argv[++i]}` : argv[++i];
+    } else if (arg === "--from" && argv[i + 1]) {
+      out["from"] = argv[++i];
+    } else if (arg === "--to" && argv[i + 1]) {
+      out["to"] = argv[++i];
     } else if (arg === "--index-dir" && argv[i + 1]) {
       out["index-dir"] = argv[++i];
     } else if (arg === "--submodule") {
@@ -47,6 +61,28 @@ function parseArgs(argv: string[]): Record<string, string | boolean> {
       out["dir"] = argv[++i];
     } else if (arg === "--version" && argv[i + 1]) {
       out["version"] = argv[++i];
+    } else if (arg === "--json") {
+      out["json"] = true;
+    } else if (arg === "--stale-days" && argv[i + 1]) {
+      out["stale-days"] = argv[++i];
+    } else if (arg === "--concurrency" && argv[i + 1]) {
+      out["concurrency"] = argv[++i];
+    } else if (arg === "--git") {
+      out["git"] = true;
+    } else if (arg === "--template-dir" && argv[i + 1]) {
+      out["template-dir"] = argv[++i];
+    } else if (arg === "--force") {
+      out["force"] = true;
+    } else if (arg === "--apply") {
+      out["apply"] = true;
+    } else if (arg === "--title" && argv[i + 1]) {
+      out["title"] = argv[++i];
+    } else if (arg === "--since" && argv[i + 1]) {
+      out["since"] = argv[++i];
+    } else if (arg === "--until" && argv[i + 1]) {
+      out["until"] = argv[++i];
+    } else if (arg === "--reindex") {
+      out["reindex"] = true;
     }
   }
   return out;
@@ -58,6 +94,8 @@ function question(rl: ReturnType<typeof createInterface>, prompt: string, defaul
 }
 
 interface MasterListEntry {
+  /** Canonical 32-char hex id (from the blogger directory); older lists may not have it */
+  hexId?: string;
   displayName: string;
   blogUrl: string;
   blogName?: string;
@@ -89,14 +127,42 @@ async function fetchMasterList(url: string): Promise<MasterListEntry[]> {
 }
 
 function masterEntryToBlogger(e: MasterListEntry): Blogger {
-  return bloggerFromManual(e.displayName, e.blogUrl, e.followUrl ?? undefined, e.blogName ?? undefined);
+  return bloggerFromManual(e.displayName, e.blogUrl, e.followUrl ?? undefined, e.blogName ?? undefined, e.hexId);
+}
+
+/** --git: exit early when git cannot commit here. */
+async function requireGit(): Promise<void> {
+  const { checkGitReady } = await import("./git-repo");
+  const problem = checkGitReady();
+  if (problem) {
+    console.error(`--git: ${problem}`);
+    process.exit(1);
+  }
+}
+
+/** --git for a scaffolded creator repo: init, commit, origin <repo-base-url>/<slug>. Failures are reported, not fatal. */
+async function gitInitCreator(repoPath: string, slug: string, repoBaseUrl: string | undefined): Promise<void> {
+  const { initCreatorGitRepo, creatorRepoUrl } = await import("./git-repo");
+  try {
+    const actions = await initCreatorGitRepo(repoPath, {
+      remoteUrl: repoBaseUrl ? creatorRepoUrl(repoBaseUrl, slug) : null,
+    });
+    if (actions.length > 0) console.log(`  git: ${actions.join(", ")}`);
+  } catch (err) {
+    console.error(`  git: ${err instanceof Error ? err.message : err}`);
+  }
 }
 
 async function runInteractiveCreatorFlow(args: Record<string, string | boolean>): Promise<void> {
   const outputDir = (args["output-dir"] as string) || DEFAULT_OUTPUT_DIR;
   const listUrlOverride = args["list-url"] as string | undefined;
   const discoverFeed = !!args["discover-feed"];
+  const force = !!args["force"];
+  const templateDir = getTemplateOverlayDir(args["template-dir"] as string | undefined);
+  const useGit = !!args["git"];
+  const repoBaseUrl = (args["repo-base-url"] as string)?.trim();
   const dryRun = !!args["dry-run"];
+  if (useGit && !dryRun) await requireGit();
   const rl = createInterface({ input: process.stdin, output: process.stdout });
 
   console.log("\nWhere do you want to get the creator from?");
@@ -184,14 +250,19 @@ async function runInteractiveCreatorFlow(args: Record<string, string | boolean>)
 
   rl.close();
 
+  const resolved = resolveSlugCollisions(toCreate, await readExistingSlugOwners(outputDir));
+  toCreate = resolved.bloggers;
+  for (const line of formatSlugCollisions(resolved.collisions)) console.warn(line);
+
   for (const blogger of toCreate) {
     const repoPath = join(outputDir, blogger.slug);
     if (dryRun) {
-      console.log(`[dry-run] Would create ${repoPath} for ${blogger.displayName}`);
+      console.log(`[dry-run] Would ${existsSync(join(repoPath, "creator.json")) ? "update existing" : "create"} ${repoPath} for ${blogger.displayName}`);
       continue;
     }
-    await scaffoldCreatorRepo(blogger, repoPath, { discoverFeed });
-    console.log(`Created ${repoPath}`);
+    const results = await scaffoldCreatorRepo(blogger, repoPath, { discoverFeed, force, templateDir });
+    console.log(formatScaffoldResults(repoPath, results));
+    if (useGit) await gitInitCreator(repoPath, blogger.slug, repoBaseUrl);
   }
 }
 
@@ -218,7 +289,7 @@ async function runInteractiveMainMenu(args: Record<string, string | boolean>): P
     });
     const { scaffoldIndexRepo } = await import("./scaffold-index");
     const dir = outputDir.startsWith("/") ? outputDir : join(process.cwd(), outputDir);
-    await scaffoldIndexRepo(dir);
+    await scaffoldIndexRepo(dir, { templateDir: getTemplateOverlayDir(args["template-dir"] as string | undefined) });
     console.log(`Created index repo at ${dir}`);
   } else if (choice === "3") {
     const r2 = createInterface({ input: process.stdin, output: process.stdout });
@@ -234,7 +305,12 @@ async function runInteractiveMainMenu(args: Record<string, string | boolean>): P
     const indexPath = indexDir.startsWith("/") ? indexDir : join(process.cwd(), indexDir);
     const { addCreatorToIndex } = await import("./scaffold-index");
     const resolvedSlug = slug || repo.replace(/\/$/, "").split("/").pop()?.replace(/\.git$/, "") || "creator";
-    await addCreatorToIndex(indexPath, repo, resolvedSlug, sub.toLowerCase() === "y" || sub.toLowerCase() === "yes");
+    try {
+      await addCreatorToIndex(indexPath, repo, resolvedSlug, sub.toLowerCase() === "y" || sub.toLowerCase() === "yes");
+    } catch (err) {
+      console.log(err instanceof Error ? err.message : err);
+      return;
+    }
     console.log(`Added ${repo} to index (slug: ${resolvedSlug})`);
   } else if (choice === "4") {
     const r3 = createInterface({ input: process.stdin, output: process.stdout });
@@ -261,6 +337,10 @@ async function createCreator(args: Record<string, string | boolean>): Promise<vo
   const all = !!args["all"];
   const user = args["user"] as string | undefined;
   const discoverFeed = !!args["discover-feed"];
+  const force = !!args["force"];
+  const templateDir = getTemplateOverlayDir(args["template-dir"] as string | undefined);
+  const useGit = !!args["git"];
+  const repoBaseUrl = (args["repo-base-url"] as string)?.trim();
 
   if (!all && !user) {
     await runInteractiveCreatorFlow(args);
@@ -295,15 +375,23 @@ async function createCreator(args: Record<string, string | boolean>): Promise<vo
     toCreate = [found];
   }
 
+  const resolved = resolveSlugCollisions(toCreate, await readExistingSlugOwners(outputDir));
+  toCreate = resolved.bloggers;
+  for (const line of formatSlugCollisions(resolved.collisions)) console.warn(line);
+  if (useGit && !dryRun) await requireGit();
+
   for (const blogger of toCreate) {
     const repoPath = join(outputDir, blogger.slug);
     const feedUrl = blogger.blogUrl ? getFeedUrl(blogger.blogUrl) : "";
     if (dryRun) {
-      console.log(`[dry-run] Would create ${repoPath} for ${blogger.displayName} (feed: ${feedUrl})`);
+      console.log(
+        `[dry-run] Would ${existsSync(join(repoPath, "creator.json")) ? "update existing" : "create"} ${repoPath} for ${blogger.displayName} (feed: ${feedUrl})`
+      );
       continue;
     }
-    await scaffoldCreatorRepo(blogger, repoPath, { discoverFeed });
-    console.log(`Created ${repoPath}`);
+    const results = await scaffoldCreatorRepo(blogger, repoPath, { discoverFeed, force, templateDir });
+    console.log(formatScaffoldResults(repoPath, results));
+    if (useGit) await gitInitCreator(repoPath, blogger.slug, repoBaseUrl);
   }
 }
 
@@ -315,17 +403,24 @@ async function createIndex(args: Record<string, string | boolean>): Promise<void
     console.log(`[dry-run] Would create index repo at ${outputDir}`);
     return;
   }
-  await scaffoldIndexRepo(outputDir);
+  await scaffoldIndexRepo(outputDir, { templateDir: getTemplateOverlayDir(args["template-dir"] as string | undefined) });
   console.log(`Created index repo at ${outputDir}`);
 }
 
 async function bootstrapIndex(args: Record<string, string | boolean>): Promise<void> {
   const indexDir = (args["index-dir"] as string) || join(process.cwd(), "index-repo");
   const listUrlOverride = args["list-url"] as string | undefined;
-  const limitRaw = args["limit"] as string | undefined;
-  const limit = limitRaw ? Math.max(0, parseInt(limitRaw, 10)) : undefined;
+  const limit = intOption(args, "limit", 1);
   const repoBaseUrl = (args["repo-base-url"] as string)?.trim();
   const dryRun = !!args["dry-run"];
+  const force = !!args["force"];
+  const templateDir = getTemplateOverlayDir(args["template-dir"] as string | undefined);
+  const useGit = !!args["git"];
+  if (useGit && !repoBaseUrl) {
+    console.error("bootstrap-index --git needs --repo-base-url (e.g. https://github.com/myorg, or a local directory for bare repos)");
+    process.exit(1);
+  }
+  if (useGit && !dryRun) await requireGit();
 
   const listUrl = getMasterListUrl(listUrlOverride);
   let list: MasterListEntry[];
@@ -337,34 +432,54 @@ async function bootstrapIndex(args: Record<string, string | boolean>): Promise<v
   }
 
   const withFeed = list.filter((e) => e.blogUrl?.trim());
-  const toCreate = limit != null ? withFeed.slice(0, limit) : withFeed;
-  if (toCreate.length === 0) {
+  const entries = limit != null ? withFeed.slice(0, limit) : withFeed;
+  if (entries.length === 0) {
     console.log("No creators with Blog URL in the list.");
     return;
   }
+  const resolved = resolveSlugCollisions(entries.map(masterEntryToBlogger), await readExistingSlugOwners(join(indexDir, "subrepos")));
+  const toCreate = resolved.bloggers;
+  for (const line of formatSlugCollisions(resolved.collisions)) console.warn(line);
 
   console.log(`Bootstrap: creating index (if needed) and ${toCreate.length} creator repo(s) in ${indexDir}...`);
 
   if (!dryRun) {
-    const { scaffoldIndexRepo, addCreatorToIndex } = await import("./scaffold-index");
-    const { existsSync } = await import("node:fs");
+    const { scaffoldIndexRepo, addCreatorToIndex, registerSubmodule } = await import("./scaffold-index");
+    const { creatorRepoUrl, initRepo, commitAll } = await import("./git-repo");
     const reposPath = join(indexDir, "creators", "repos.json");
     if (!existsSync(reposPath)) {
       await mkdir(indexDir, { recursive: true });
-      await scaffoldIndexRepo(indexDir);
+      await scaffoldIndexRepo(indexDir, { templateDir });
     }
+    if (useGit && initRepo(indexDir)) console.log(`git init ${indexDir}`);
     const subreposDir = join(indexDir, "subrepos");
     await mkdir(subreposDir, { recursive: true });
 
-    for (const e of toCreate) {
-      const blogger = masterEntryToBlogger(e);
+    for (const blogger of toCreate) {
       const repoPath = join(subreposDir, blogger.slug);
-      await scaffoldCreatorRepo(blogger, repoPath);
-      const url = repoBaseUrl
-        ? `${repoBaseUrl.replace(/\/$/, "")}/${blogger.slug}`
-        : `https://github.com/REPLACE_ME/${blogger.slug}`;
-      await addCreatorToIndex(indexDir, url, blogger.slug, false);
-      console.log(`  ${blogger.slug}`);
+      const url = repoBaseUrl ? creatorRepoUrl(repoBaseUrl, blogger.slug) : `https://github.com/REPLACE_ME/${blogger.slug}`;
+      try {
+        await addCreatorToIndex(indexDir, url, blogger.slug, false);
+      } catch (err) {
+        console.warn(`  ${blogger.slug}: skipped (${err instanceof Error ? err.message : err})`);
+        continue;
+      }
+      const results = await scaffoldCreatorRepo(blogger, repoPath, { force, templateDir });
+      const count = (action: string) => results.filter((r) => r.action === action).length;
+      const merged = results.filter((r) => r.action === "merged").map((r) => r.path);
+      console.log(
+        results.every((r) => r.action === "created")
+          ? `  ${blogger.slug}`
+          : `  ${blogger.slug} (existing: ${count("created")} added, ${count("overwritten")} overwritten${merged.length ? `, merged ${merged.join(", ")}` : ""})`
+      );
+      if (useGit) {
+        await gitInitCreator(repoPath, blogger.slug, repoBaseUrl);
+        try {
+          for (const action of await registerSubmodule(indexDir, blogger.slug, url)) console.log(`  git: ${action}`);
+        } catch (err) {
+          console.error(`  git: ${err instanceof Error ? err.message : err}`);
+        }
+      }
     }
 
     const { spawnSync } = await import("node:child_process");
@@ -374,15 +489,27 @@ async function bootstrapIndex(args: Record<string, string | boolean>): Promise<v
     } else {
       console.log("Updated creators/manifest.json");
     }
+    if (useGit) {
+      try {
+        if (commitAll(indexDir, `Bootstrap index with ${toCreate.length} creator repo(s)`)) console.log(`Committed ${indexDir}`);
+      } catch (err) {
+        console.error(`git: ${err instanceof Error ? err.message : err}`);
+      }
+      const { localRepoPath } = await import("./git-repo");
+      console.log(
+        localRepoPath(repoBaseUrl!)
+          ? `Creator repos were pushed to bare repos under ${localRepoPath(repoBaseUrl!)}. Clone the index with: git -c protocol.file.allow=always clone --recurse-submodules ${indexDir}`
+          : `Next: create the creator repos under ${repoBaseUrl}, push each one (git -C subrepos/<slug> push -u origin main), then add a remote to the index and push it.`
+      );
+    }
   } else {
-    toCreate.slice(0, 5).forEach((e, i) => {
-      const b = masterEntryToBlogger(e);
-      console.log(`  [dry-run] ${i + 1}) ${e.displayName} → subrepos/${b.slug}`);
+    toCreate.slice(0, 5).forEach((b, i) => {
+      console.log(`  [dry-run] ${i + 1}) ${b.displayName} → subrepos/${b.slug}`);
     });
     if (toCreate.length > 5) console.log(`  ... and ${toCreate.length - 5} more`);
   }
 
-  console.log(`Done. Others can filter the index (edit creators/repos.json or remove subrepos) to keep only the creators they want.`);
+  console.log(`Done. Others can filter the index (remove-from-index --slug <a,b> or edit creators/repos.json) to keep only the creators they want.`);
 }
 
 async function addToIndex(args: Record<string, string | boolean>): Promise<void> {
@@ -403,14 +530,279 @@ async function addToIndex(args: Record<string, string | boolean>): Promise<void>
     console.log(`[dry-run] Would add ${repo} to ${indexDir}/creators/repos.json (slug: ${resolvedSlug})${asSubmodule ? " and as submodule" : ""}`);
     return;
   }
-  await addCreatorToIndex(indexDir, repo, resolvedSlug, asSubmodule);
+  try {
+    await addCreatorToIndex(indexDir, repo, resolvedSlug, asSubmodule);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
   console.log(`Added ${repo} to index (slug: ${resolvedSlug})`);
 }
 
+async function removeFromIndex(args: Record<string, string | boolean>): Promise<void> {
+  const indexDir = (args["index-dir"] as string) || join(process.cwd(), "index-repo");
+  const slugs = (args["slug"] as string | undefined)?.split(",").map((s) => s.trim()).filter(Boolean) ?? [];
+  const dryRun = !!args["dry-run"];
+
+  if (slugs.length === 0) {
+    console.error("Usage: remove-from-index --slug <slug>[,<slug>...] [--index-dir <path>] [--dry-run]");
+    process.exit(1);
+  }
+
+  const { removeCreatorFromIndex, resolveIndexSlugs, isValidSlug } = await import("./scaffold-index");
+  const invalid = slugs.filter((s) => !isValidSlug(s));
+  if (invalid.length > 0) {
+    console.error(`Invalid slug(s): ${invalid.join(", ")} (lowercase letters, digits and single hyphens)`);
+    process.exit(1);
+  }
+  let removed = 0;
+  for (const slug of await resolveIndexSlugs(indexDir, slugs)) {
+    const actions = await removeCreatorFromIndex(indexDir, slug, { dryRun });
+    if (actions.length === 0) {
+      console.warn(`${slug}: not in index (no repos.json entry or subrepos/${slug})`);
+      continue;
+    }
+    removed++;
+    console.log(`${dryRun ? "[dry-run] " : ""}${slug}:`);
+    for (const a of actions) console.log(`  ${a}`);
+  }
+  if (dryRun || removed === 0) return;
+
+  const { spawnSync } = await import("node:child_process");
+  const res = spawnSync("bun", ["run", "update-manifest"], { cwd: indexDir, stdio: "inherit" });
+  if (res.status !== 0) {
+    console.warn("update-manifest failed (run manually from index repo): bun run update-manifest");
+  } else {
+    console.log("Updated creators/manifest.json");
+  }
+}
+
+async function renameCreator(args: Record<string, string | boolean>): Promise<void> {
+  const indexDir = (args["index-dir"] as string) || join(process.cwd(), "index-repo");
+  const from = args["from"] as string | undefined;
+  const to = args["to"] as string | undefined;
+  const dryRun = !!args["dry-run"];
+
+  if (!from || !to) {
+    console.error("Usage: rename-creator --from <slug> --to <slug> [--index-dir <path>] [--dry-run]");
+    process.exit(1);
+  }
+
+  const { renameCreatorInIndex } = await import("./scaffold-index");
+  let actions: string[];
+  try {
+    actions = await renameCreatorInIndex(indexDir, from, to, { dryRun });
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+  console.log(`${dryRun ? "[dry-run] " : ""}${from} → ${to}:`);
+  for (const a of actions) console.log(`  ${a}`);
+  if (dryRun) return;
+
+  const { spawnSync } = await import("node:child_process");
+  const res = spawnSync("bun", ["run", "update-manifest"], { cwd: indexDir, stdio: "inherit" });
+  if (res.status !== 0) {
+    console.warn("update-manifest failed (run manually from index repo): bun run update-manifest");
+  } else {
+    console.log("Updated creators/manifest.json");
+  }
+}
+
+async function migrateSlugs(args: Record<string, string | boolean>): Promise<void> {
+  const indexDir = (args["index-dir"] as string) || join(process.cwd(), "index-repo");
+  const apply = !!args["apply"];
+
+  const { planSlugMigration, applySlugMigration, formatSlugChanges } = await import("./migrate-slugs");
+  const changes = await planSlugMigration(indexDir);
+  if (changes.length === 0) {
+    console.log("No creator slugs change with the current slugify.");
+    return;
+  }
+  console.log(formatSlugChanges(changes));
+  if (!apply) {
+    const conflicts = changes.filter((c) => c.conflict).length;
+    console.log(
+      `\n${changes.length - conflicts} slug(s) would change${conflicts ? `, ${conflicts} skipped (rename those by hand with rename-creator)` : ""}. ` +
+        "Re-run with --apply to rename them (old slugs are kept as aliases)."
+    );
+    return;
+  }
+
+  const failed = await applySlugMigration(indexDir, changes);
+  for (const f of failed) console.error(`${f.change.from}: ${f.error}`);
+  const renamed = changes.filter((c) => !c.conflict).length - failed.length;
+  console.log(`\nRenamed ${renamed} creator(s).`);
+  if (renamed > 0) {
+    const { spawnSync } = await import("node:child_process");
+    const res = spawnSync("bun", ["run", "update-manifest"], { cwd: indexDir, stdio: "inherit" });
+    if (res.status !== 0) {
+      console.warn("update-manifest failed (run manually from index repo): bun run update-manifest");
+    } else {
+      console.log("Updated creators/manifest.json");
+    }
+  }
+  if (failed.length > 0) process.exit(1);
+}
+
+async function reconcileIds(args: Record<string, string | boolean>): Promise<void> {
+  const indexDir = args["index-dir"] as string | undefined;
+  const reposDir = indexDir ? join(indexDir, "subrepos") : (args["output-dir"] as string) || DEFAULT_OUTPUT_DIR;
+  const dataDir = args["data-dir"] as string | undefined;
+  const apply = !!args["apply"];
+
+  let canonical: { hexId: string; displayName: string; blogUrl: string | null }[];
+  if (dataDir) {
+    canonical = (await parseBloggerDirectory(dataDir)).map((b) => ({ hexId: b.hexId, displayName: b.displayName, blogUrl: b.blogUrl }));
+  } else {
+    const listUrl = getMasterListUrl(args["list-url"] as string | undefined);
+    let list: MasterListEntry[];
+    try {
+      list = await fetchMasterList(listUrl);
+    } catch (err) {
+      console.error("Failed to fetch master list:", err);
+      process.exit(1);
+    }
+    canonical = list
+      .filter((e) => isHexId(e.hexId))
+      .map((e) => ({ hexId: e.hexId!.toLowerCase(), displayName: e.displayName, blogUrl: e.blogUrl || null }));
+    if (canonical.length === 0) {
+      console.error(`Master list has no hexId fields (${listUrl}). Re-export it with bun run export-creators, or pass --data-dir.`);
+      process.exit(1);
+    }
+  }
+
+  const { reconcileCreatorIds, formatReconciliation } = await import("./reconcile-ids");
+  const results = await reconcileCreatorIds(reposDir, canonical, { apply });
+  if (results.length === 0) {
+    console.error(`No creator repos found in ${reposDir}`);
+    process.exit(1);
+  }
+  console.log(formatReconciliation(results));
+  const changed = results.filter((r) => r.status === "updated" || r.status === "would_update").length;
+  if (!apply) {
+    if (changed > 0) console.log(`\n${changed} creator(s) with a different id. Re-run with --apply to write creator.json.`);
+    return;
+  }
+  if (indexDir && changed > 0) {
+    const { spawnSync } = await import("node:child_process");
+    const res = spawnSync("bun", ["run", "update-manifest"], { cwd: indexDir, stdio: "inherit" });
+    if (res.status !== 0) {
+      console.warn("update-manifest failed (run manually from index repo): bun run update-manifest");
+    } else {
+      console.log("Updated creators/manifest.json");
+    }
+  }
+}
+
+/** Integer option value, undefined when not given; exits with an error if it is not a whole number >= min. */
+function intOption(args: Record<string, string | boolean>, name: string, min: number): number | undefined {
+  const raw = args[name];
+  if (raw === undefined) return undefined;
+  const n = typeof raw === "string" && /^\d+$/.test(raw.trim()) ? parseInt(raw, 10) : NaN;
+  if (!(n >= min)) {
+    console.error(`--${name} must be a whole number${min > 0 ? ` of at least ${min}` : ""} (got ${JSON.stringify(raw)})`);
+    process.exit(1);
+  }
+  return n;
+}
+
+async function checkFeeds(args: Record<string, string | boolean>): Promise<void> {
+  const indexDir = (args["index-dir"] as string) || join(process.cwd(), "index-repo");
+  const staleDays = intOption(args, "stale-days", 0);
+  const concurrency = intOption(args, "concurrency", 1);
+
+  const { checkIndexFeeds, formatCheckTable, FAILING_HEALTH } = await import("./check-feeds");
+  const results = await checkIndexFeeds(indexDir, { staleDays, concurrency });
+  if (results.length === 0) {
+    console.error(`No creators found in ${indexDir} (expected subrepos/*/creator.json or creators/repos.json)`);
+    process.exit(1);
+  }
+  const failures = results.filter((r) => FAILING_HEALTH.has(r.health));
+  if (args["json"]) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    console.log(formatCheckTable(results));
+    console.log(`\n${results.length} creator(s) checked, ${failures.length} failing`);
+  }
+  if (failures.length > 0) process.exit(1);
+}
+
+async function refreshFeeds(args: Record<string, string | boolean>): Promise<void> {
+  const indexDir = args["index-dir"] as string | undefined;
+  const slug = args["slug"] as string | undefined;
+  const apply = !!args["apply"];
+
+  const { refreshCreatorRepo, refreshIndex, formatRefreshResults } = await import("./refresh-feeds");
+  let results;
+  if (indexDir) {
+    const { resolveIndexSlugs } = await import("./scaffold-index");
+    const slugs = slug ? await resolveIndexSlugs(indexDir, slug.split(",").map((s) => s.trim()).filter(Boolean)) : undefined;
+    results = await refreshIndex(indexDir, { apply, slugs });
+  } else {
+    const dir = (args["dir"] as string) || process.cwd();
+    results = [await refreshCreatorRepo(dir.startsWith("/") ? dir : join(process.cwd(), dir), { apply })];
+  }
+  if (results.length === 0) {
+    console.error(`No creator repos found${indexDir ? ` in ${indexDir}/subrepos` : ""}`);
+    process.exit(1);
+  }
+  console.log(formatRefreshResults(results));
+  const pending = results.filter((r) => r.changes.length > 0 && !r.applied).length;
+  if (pending > 0) console.log(`\n${pending} creator(s) with changes. Re-run with --apply to write creator.json.`);
+}
+
+async function buildSiteCommand(args: Record<string, string | boolean>): Promise<void> {
+  const indexDir = (args["index-dir"] as string) || join(process.cwd(), "index-repo");
+  const outputDir = args["output-dir"] as string | undefined;
+  const title = args["title"] as string | undefined;
+
+  const { buildSite } = await import("./build-site");
+  try {
+    const result = await buildSite(indexDir, { outputDir, title });
+    console.log(`Built ${result.outputDir} (${result.creators} creator(s), ${result.posts} post page(s))`);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+}
+
+async function searchCommand(query: string | undefined, args: Record<string, string | boolean>): Promise<void> {
+  const indexDir = (args["index-dir"] as string) || join(process.cwd(), "index-repo");
+  if (!query) {
+    console.error('Usage: search "<query>" [--index-dir <path>] [--slug <a,b>] [--since <date>] [--until <date>] [--limit <n>] [--json]');
+    process.exit(1);
+  }
+  const slugArg = (args["slug"] as string | undefined)?.split(",").map((s) => s.trim()).filter(Boolean);
+  const limit = intOption(args, "limit", 1);
+
+  const { resolveIndexSlugs } = await import("./scaffold-index");
+  const slugs = slugArg ? await resolveIndexSlugs(indexDir, slugArg) : undefined;
+  const { searchPosts, formatSearchHits } = await import("./search");
+  const result = await searchPosts(indexDir, query, {
+    slugs,
+    since: args["since"] as string | undefined,
+    until: args["until"] as string | undefined,
+    limit,
+    rebuild: !!args["reindex"],
+  });
+  if (args["json"]) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+  const { added, updated, removed, documents } = result.indexed;
+  if (added || updated || removed) {
+    console.error(`Indexed ${added} new, ${updated} changed, ${removed} removed post(s) (${documents} total)`);
+  }
+  console.log(formatSearchHits(result, { color: !!process.stdout.isTTY }));
+}
+
 async function runUpdateCommand(args: Record<string, string | boolean>): Promise<void> {
   const dir = (args["dir"] as string) || process.cwd();
   const targetDir = dir.startsWith("/") ? dir : join(process.cwd(), dir);
   const versionOverride = args["version"] as string | undefined;
+  const from = args["from"] as string | undefined;
+  const dryRun = !!args["dry-run"];
 
   const { runUpdate, getCurrentVersion, detectRepoType } = await import("./update-from-template");
   const type = await detectRepoType(targetDir);
@@ -420,14 +812,54 @@ async function runUpdateCommand(args: Record<string, string | boolean>): Promise
   }
   const current = await getCurrentVersion(targetDir);
   console.log(`Current version: ${current ?? "unknown"}`);
-  console.log(`Updating ${type} repo...`);
+  console.log(`${dryRun ? "[dry-run] Checking" : "Updating"} ${type} repo${from ? ` from ${from}` : ""}...`);
+  let result: Awaited<ReturnType<typeof runUpdate>>;
   try {
-    const { version, filesUpdated } = await runUpdate(targetDir, versionOverride);
-    console.log(`Updated to v${version} (${filesUpdated} file(s))`);
+    result = await runUpdate(targetDir, {
+      version: versionOverride,
+      from: from && !from.startsWith("/") ? join(process.cwd(), from) : from,
+      dryRun,
+      templateDir: getTemplateOverlayDir(args["template-dir"] as string | undefined),
+    });
   } catch (err) {
     console.error(err instanceof Error ? err.message : err);
     process.exit(1);
   }
+  for (const f of result.files) {
+    if (f.action !== "unchanged") console.log(`  ${f.action.padEnd(9)} ${f.path}`);
+  }
+  for (const m of result.migrations) {
+    const state = m.changes.length === 0 ? "(nothing to do)" : dryRun ? "(would apply)" : "";
+    console.log(`  migrate   ${m.id} [${m.version}] ${state}`.trimEnd());
+    for (const c of m.changes) console.log(`              ${c}`);
+  }
+  for (const f of result.files) {
+    if (f.diff) process.stdout.write(`\n${f.diff}`);
+  }
+  // Tags are stored as 0.1.2; branch names and local sources as they are
+  const label = /^\d/.test(result.version) ? `v${result.version}` : result.version;
+  console.log(
+    dryRun
+      ? `\n[dry-run] Would update to ${label} (${result.filesUpdated} file(s)); nothing written`
+      : `Updated to ${label} (${result.filesUpdated} file(s))`
+  );
+
+  const conflicts = result.files.filter((f) => f.action === "conflict");
+  if (conflicts.length === 0) return;
+  const message = [
+    `${conflicts.length} file(s) have local edits that ${dryRun ? "would conflict" : "conflict"} with template ${label}:`,
+    ...conflicts.map((f) => (dryRun ? `  ${f.path}` : `  ${f.path} (your version: ${f.path}.orig)`)),
+    dryRun
+      ? "Run update without --dry-run to write them with conflict markers."
+      : "Resolve the <<<<<<< / >>>>>>> markers, delete the .orig files and commit.",
+  ].join("\n");
+  console.error(`\n${message}`);
+  const summary = dryRun ? undefined : process.env.GITHUB_STEP_SUMMARY;
+  if (summary) {
+    const { appendFile } = await import("node:fs/promises");
+    await appendFile(summary, `### Template update conflicts\n\n\`\`\`\n${message}\n\`\`\`\n`).catch(() => {});
+  }
+  process.exit(1);
 }
 
 async function main(): Promise<void> {
@@ -443,8 +875,24 @@ async function main(): Promise<void> {
     await bootstrapIndex(args);
   } else if (command === "add-to-index") {
     await addToIndex(args);
+  } else if (command === "remove-from-index") {
+    await removeFromIndex(args);
+  } else if (command === "rename-creator") {
+    await renameCreator(args);
+  } else if (command === "migrate-slugs") {
+    await migrateSlugs(args);
+  } else if (command === "reconcile-ids") {
+    await reconcileIds(args);
   } else if (command === "update") {
     await runUpdateCommand(args);
+  } else if (command === "check-feeds") {
+    await checkFeeds(args);
+  } else if (command === "refresh-feeds") {
+    await refreshFeeds(args);
+  } else if (command === "build-site") {
+    await buildSiteCommand(args);
+  } else if (command === "search") {
+    await searchCommand(argv[1] && !argv[1].startsWith("--") ? argv[1] : undefined, args);
   } else if (!command || command === "--help" || command === "-h") {
     if (!command || argv.length === 0) {
       await runInteractiveMainMenu(args);
@@ -459,7 +907,15 @@ Commands:
   create-index                         Create index repo (manifest + update workflow)
   bootstrap-index                      Create index + all creator repos from master list (filter down later)
   add-to-index --repo <url>            Add a creator repo to the index (optionally as submodule)
+  remove-from-index --slug <slug>      Remove creator(s) from the index (repos.json, submodule or subrepo dir)
+  rename-creator --from <a> --to <b>   Change a creator's slug across the index (old slug kept as an alias)
+  migrate-slugs --index-dir <path>     Report creator slugs that change under Unicode-aware slugify (--apply renames)
+  reconcile-ids                        Set creator.json hexId to the canonical id (directory or master list)
   update                               Update this repo from the orange-tpot template (creator or index)
+  check-feeds --index-dir <path>       Probe every creator's feeds and blog URL; exit non-zero on failures
+  refresh-feeds                        Re-resolve blogUrl / feedUrls / supplementStrategy in creator.json
+  build-site --index-dir <path>        Render the index (directory, creator pages, posts) into a static site/
+  search "<query>" --index-dir <path>  Full-text search (BM25) across all archived posts in the index
 
 Run with no arguments for the interactive menu (master list, manual entry, or local directory).
 
@@ -467,11 +923,16 @@ Options (create-creator):
   --data-dir <path>    Blogger directory (default: ./Private & Shared/Orange TPOT Directory)
   --output-dir <path>  Where to create repo(s) (default: ./creators)
   --list-url <url>     Master list URL (for interactive "Pick from list"; or set ORANGE_TPOT_MASTER_LIST_URL)
-  --discover-feed      For custom domains, discover feed URL via HTML link tags and validate
+  --discover-feed      For custom domains, probe the HTML-advertised feed and common paths; keep the best feed
+  --force              Overwrite existing repo files with the template (default: add missing files, merge creator.json)
+  --template-dir <path> Overlay: files in <path>/creator replace or add to the built-in templates (or ORANGE_TPOT_TEMPLATE_DIR)
+  --git                git init each repo and commit the scaffold (branch main)
+  --repo-base-url <url> With --git: origin <url>/<slug>; a local path or file:// URL gets a bare repo and a push
   --dry-run            Print what would be created
 
 Options (create-index):
   --output-dir <path>  Where to create index repo (default: ./index-repo)
+  --template-dir <path> Overlay: files in <path>/index replace or add to the built-in templates (or ORANGE_TPOT_TEMPLATE_DIR)
   --dry-run            Print what would be created
 
 Options (bootstrap-index):
@@ -479,6 +940,9 @@ Options (bootstrap-index):
   --list-url <url>       Master list URL (default: ORANGE_TPOT_MASTER_LIST_URL or orange-tpot data/creators.json)
   --limit <n>             Cap number of creators (default: all)
   --repo-base-url <url>  Base URL for repos in index (e.g. https://github.com/myorg); else REPLACE_ME
+  --force                Overwrite existing subrepo files with the template (default: add missing, merge creator.json)
+  --template-dir <path>  Overlay for the index and creator templates (<path>/index, <path>/creator)
+  --git                  Make the index and each creator a git repo; register creators as submodules (needs --repo-base-url)
   --dry-run              Print what would be created
 
 Options (add-to-index):
@@ -488,19 +952,78 @@ Options (add-to-index):
   --submodule          Add as git submodule under subrepos/<slug>
   --dry-run            Print what would be done
 
+Options (remove-from-index):
+  --slug <a,b>         Creator slug(s) to remove (comma list or repeated --slug)
+  --index-dir <path>   Index repo path (default: ./index-repo)
+  --dry-run            Print what would be removed
+
+Options (rename-creator):
+  --from <slug>        Current slug
+  --to <slug>          New slug (lowercase letters, digits and hyphens; must not be in use)
+  --index-dir <path>   Index repo path (default: ./index-repo)
+  --dry-run            Print what would change
+
+Options (reconcile-ids):
+  --index-dir <path>   Reconcile <path>/subrepos (and regenerate the manifest with --apply)
+  --output-dir <path>  Or a folder of creator repos (default: ./creators)
+  --data-dir <path>    Canonical ids from the blogger directory (default: the master list, --list-url)
+  --apply              Write the canonical hexId to creator.json (default: only report)
+
+Options (migrate-slugs):
+  --index-dir <path>   Index repo path (default: ./index-repo)
+  --apply              Rename the reported creators (default: only report)
+
 Options (update):
   --dir <path>         Repo to update (default: current directory)
-  --version <ver>      Template version to apply (default: latest release)
+  --version <ver>      Template version to apply: release tag or branch name (default: latest release)
+                       Locally edited files are merged; exits 1 on conflicts (markers written, local copy in <file>.orig)
+  --from <path>        Local template source: checkout of the tooling repo or a .tar.gz of one (no download)
+  --dry-run            Print a unified diff of every template file that would change; write nothing
+  --template-dir <path> Overlay files that stand in for the template's (same as at scaffold time)
+
+Options (check-feeds):
+  --index-dir <path>   Index repo path (default: ./index-repo); reads subrepos/*/creator.json and creators/repos.json
+  --stale-days <n>     Report feeds whose newest post is older than n days as stale (default: 180)
+  --concurrency <n>    Creators checked in parallel (default: 8)
+  --json               Print results as JSON instead of a table
+
+Options (refresh-feeds):
+  --dir <path>         Creator repo to refresh (default: current directory)
+  --index-dir <path>   Refresh every creator under <path>/subrepos instead
+  --slug <a,b>         With --index-dir, only refresh these subrepos
+  --apply              Write the proposed changes to creator.json (default: only print them)
+
+Options (build-site):
+  --index-dir <path>   Index repo path (default: ./index-repo)
+  --output-dir <path>  Where to write the site (default: <index-dir>/site; replaced on each build)
+  --title <text>       Site title (default: "Creator index")
+
+Options (search):
+  --index-dir <path>   Index repo path (default: ./index-repo); index kept in <index-dir>/.search-index.json
+  --slug <a,b>         Only posts from these creator slugs
+  --since <date>       Only posts published on or after YYYY-MM-DD
+  --until <date>       Only posts published on or before YYYY-MM-DD
+  --limit <n>          Max results (default: 10)
+  --reindex            Rebuild the search index from scratch
+  --json               Print results (with snippet highlight offsets) as JSON
 
 Examples:
   bun run src/cli.ts create-creator --user "Holly Elmore"
   bun run src/cli.ts create-creator --all --output-dir ./my-creators --dry-run
   bun run src/cli.ts create-index
   bun run src/cli.ts add-to-index --repo https://github.com/you/holly-elmore-archive --slug holly-elmore --index-dir ./index-repo --submodule
+  bun run src/cli.ts remove-from-index --slug holly-elmore,leo-guinan --index-dir ./index-repo --dry-run
+  bun run src/cli.ts rename-creator --from holly-elmore --to holly-elmore-blog --index-dir ./index-repo
   bun run src/cli.ts bootstrap-index --index-dir ./index-repo --limit 50
   bun run src/cli.ts bootstrap-index --index-dir ./index-repo --repo-base-url https://github.com/myorg
+  bun run src/cli.ts bootstrap-index --git --repo-base-url ./bare-repos   # submodules backed by local bare repos
   bun run src/cli.ts update
   bun run src/cli.ts update --version 0.1.2
+  bun run src/cli.ts update --from ../orange-tpot-tooling --dry-run
+  bun run src/cli.ts check-feeds --index-dir ./index-repo --stale-days 365
+  bun run src/cli.ts refresh-feeds --index-dir ./index-repo --apply
+  bun run src/cli.ts build-site --index-dir ./index-repo --title "Orange TPOT"
+  bun run src/cli.ts search '"effective altruism" funding' --index-dir ./index-repo --since 2023-01-01
 `);
   } else {
     console.error("Unknown command:", command);
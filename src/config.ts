@@ -13,6 +13,17 @@ export function getMasterListUrl(override?: string): string {
   return DEFAULT_MASTER_LIST_URL;
 }
 
+/**
+ * --template-dir overlay: a directory with creator/ and/or index/ whose files replace or add to the built-in templates.
+ * Used by create-creator, create-index, bootstrap-index and update.
+ */
+export function getTemplateOverlayDir(override?: string): string | null {
+  if (override && override.trim()) return override.trim();
+  const env = process.env?.ORANGE_TPOT_TEMPLATE_DIR;
+  if (env && env.trim()) return env.trim();
+  return null;
+}
+
 /** Template repo for update-from-template (owner/repo). */
 export const TEMPLATE_REPO = "metaspn/orange-tpot-tooling";
 
@@ -26,17 +37,19 @@ export function getTemplateRepo(override?: string): string {
 /** Default branch when repo has no releases (fallback for update). */
 export const TEMPLATE_DEFAULT_REF = "main";
 
-/** Base URL for GitHub tarball. version can be a tag (e.g. 0.1.2 or v0.1.2) or a branch (e.g. main). */
+/** Release versions (0.1.2, v0.1.2, 1.0.0-rc.1); any other ref is a branch name. */
+export function isTemplateVersionTag(ref: string): boolean {
+  return /^v?\d+(\.\d+)*([-+][0-9A-Za-z.-]+)?$/.test(ref.trim());
+}
+
+/** Base URL for GitHub tarball. version can be a tag (e.g. 0.1.2 or v0.1.2) or a branch (e.g. main, feature/x); HEAD is the default branch. */
 export function getTemplateTarballUrl(version: string): string {
   const repo = getTemplateRepo();
   const ref = version.trim();
-  // Branch refs: main, master. Tag refs: 0.1.2, v0.1.2
-  if (ref === "main" || ref === "master" || ref === "HEAD") {
-    return `https://github.com/${repo}/archive/refs/heads/main.tar.gz`;
-  }
-  if (ref === "master") {
-    return `https://github.com/${repo}/archive/refs/heads/master.tar.gz`;
+  if (isTemplateVersionTag(ref)) {
+    const tag = ref.startsWith("v") ? ref : `v${ref}`;
+    return `https://github.com/${repo}/archive/refs/tags/${tag}.tar.gz`;
   }
-  const tag = ref.startsWith("v") ? ref : `v${ref}`;
-  return `https://github.com/${repo}/archive/refs/tags/${tag}.tar.gz`;
+  const branch = !ref || ref === "HEAD" ? TEMPLATE_DEFAULT_REF : ref;
+  return `https://github.com/${repo}/archive/refs/heads/${branch.split("/").map(encodeURIComponent).join("/")}.tar.gz`;
 }
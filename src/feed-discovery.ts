@@ -1,13 +1,25 @@
 /**
- * Feed discovery: HTML link-tag parsing and Content-Type validation.
+ * Feed discovery: HTML link-tag parsing (RSS, Atom, JSON Feed), Content-Type validation and supplement strategy selection.
  * Used by tooling when scaffolding creator repos (e.g. custom domains).
  */
 
-import { getFeedCandidates } from "./feeds";
+import {
+  detectPlatformFromHtml,
+  detectPlatformFromUrl,
+  getFeedCandidates,
+  isSubstackUrl,
+  platformInfoFor,
+  type Platform,
+  type PlatformInfo,
+  type SupplementStrategy,
+} from "./feeds";
+import { probeFeed, rankFeedProbes, type FeedProbeResult } from "./feed-probe";
+import { findSitemapPostUrls } from "./sitemap-archive";
 
-const RSS_ATOM_TYPES = [
+const FEED_TYPES = [
   "application/rss+xml",
   "application/atom+xml",
+  "application/feed+json",
 ];
 
 /** Match <link ... href="..." ...> with type/rel for feed. */
@@ -24,7 +36,10 @@ function parseLinkTag(attrs: string, baseUrl: string): string | null {
   const href = hrefMatch[1].trim();
   const typeVal = typeMatch?.[1]?.trim().toLowerCase();
   const relVal = relMatch?.[1]?.trim().toLowerCase();
-  if (!typeVal || !RSS_ATOM_TYPES.some((t) => typeVal.includes(t))) return null;
+  if (!typeVal) return null;
+  // Older JSON Feeds are advertised as plain application/json; accept those only when the href looks like a feed
+  const isLegacyJsonFeed = typeVal === "application/json" && /feed/i.test(href);
+  if (!FEED_TYPES.some((t) => typeVal.includes(t)) && !isLegacyJsonFeed) return null;
   // Prefer rel="alternate" but allow missing rel (some feeds only have type)
   if (relVal && relVal !== "alternate" && !relVal.includes("alternate")) return null;
   try {
@@ -35,7 +50,7 @@ function parseLinkTag(attrs: string, baseUrl: string): string | null {
 }
 
 /**
- * Fetch blog page HTML and look for <link rel="alternate" type="application/rss+xml"> (or atom).
+ * Fetch blog page HTML and look for <link rel="alternate" type="application/rss+xml"> (or atom, or feed+json).
  * Returns first discovered feed URL or null.
  */
 export async function discoverFeedFromHtml(blogUrl: string): Promise<string | null> {
@@ -63,35 +78,43 @@ export async function discoverFeedFromHtml(blogUrl: string): Promise<string | nu
 }
 
 /**
- * HEAD (or GET) the URL; return true only if Content-Type suggests XML/RSS/Atom.
+ * Return true only if the URL serves a feed. Decided by the body (rss / rdf:RDF / feed root or JSON Feed), not
+ * Content-Type, so HTML served as text/xml is rejected and feeds served as text/plain are accepted. See probeFeed.
  */
 export async function validateFeedUrl(url: string): Promise<boolean> {
+  return (await probeFeed(url)).ok;
+}
+
+/**
+ * Detect a blog's platform: URL patterns first (hosted subdomains, Medium, Write.as), then the homepage fingerprint
+ * (generator meta tags, CDN hosts). Unreachable or unrecognised custom domains are "custom".
+ */
+export async function detectPlatform(blogUrl: string): Promise<PlatformInfo> {
+  const fromUrl = detectPlatformFromUrl(blogUrl);
+  if (fromUrl) return fromUrl;
   try {
-    const res = await fetch(url, { method: "HEAD", redirect: "follow" });
-    const ct = (res.headers.get("content-type") || "").toLowerCase();
-    if (ct.includes("xml") || ct.includes("rss") || ct.includes("atom")) return true;
-    // Some servers don't support HEAD or return different Content-Type for HEAD
-    if (res.status >= 400) {
-      const getRes = await fetch(url, { method: "GET", redirect: "follow" });
-      const getCt = (getRes.headers.get("content-type") || "").toLowerCase();
-      return getCt.includes("xml") || getCt.includes("rss") || getCt.includes("atom");
-    }
+    const res = await fetch(blogUrl.trim(), { redirect: "follow" });
+    const html = await res.text();
+    const platform = detectPlatformFromHtml(html);
+    if (platform) return platformInfoFor(platform, blogUrl);
   } catch {
     // ignore
   }
-  return false;
+  return platformInfoFor("custom", blogUrl);
 }
 
 /**
- * Resolve feed URL for a blog: Substack uses /feed; custom domains try HTML discovery then candidates.
+ * Resolve feed URL for a blog: Substack uses /feed; custom domains probe the HTML-advertised feed and the path
+ * candidates (platform feed paths first when platform is given) and return the best-ranked one after redirects
+ * (see rankFeedProbes). Falls back to the first candidate if none serves a feed.
  */
-export async function resolveFeedUrl(blogUrl: string): Promise<string> {
+export async function resolveFeedUrl(blogUrl: string, platform?: Platform): Promise<string> {
   const normalized = blogUrl.trim();
   if (!normalized) return "";
 
   try {
     const u = new URL(normalized);
-    if (u.hostname.endsWith(".substack.com")) {
+    if (u.hostname.endsWith(".substack.com") || platform === "substack") {
       u.pathname = "/feed";
       u.search = "";
       u.hash = "";
@@ -102,11 +125,39 @@ export async function resolveFeedUrl(blogUrl: string): Promise<string> {
   }
 
   const fromHtml = await discoverFeedFromHtml(normalized);
-  if (fromHtml && (await validateFeedUrl(fromHtml))) return fromHtml;
+  const candidates = getFeedCandidates(normalized, platform);
+  const toProbe = [...new Set([...(fromHtml ? [fromHtml] : []), ...candidates])];
 
-  const candidates = getFeedCandidates(normalized);
-  for (const candidate of candidates) {
-    if (await validateFeedUrl(candidate)) return candidate;
+  const probes: FeedProbeResult[] = [];
+  const seenFinal = new Set<string>();
+  for (const candidate of toProbe) {
+    const probe = await probeFeed(candidate);
+    // /feed and /rss often redirect to the same feed; probe results for it once
+    if (probe.ok && seenFinal.has(probe.finalUrl)) continue;
+    seenFinal.add(probe.finalUrl);
+    probes.push(probe);
+  }
+  const best = rankFeedProbes(probes)[0];
+  return best ? best.finalUrl : candidates[0] || "";
+}
+
+/**
+ * Pick the supplement strategy for a blog: Substack → substack_archive; custom domains → sitemap when the sitemap
+ * lists more post-like URLs than the feed has items (the feed is truncated), else none.
+ */
+export async function resolveSupplementStrategy(
+  blogUrl: string,
+  feedUrl: string,
+  platform?: Platform
+): Promise<SupplementStrategy> {
+  if (platform === "substack" || isSubstackUrl(blogUrl)) return "substack_archive";
+  if (!blogUrl.trim()) return "none";
+  const feedItems = feedUrl ? (await probeFeed(feedUrl)).itemCount : null;
+  let sitemapPosts = 0;
+  try {
+    sitemapPosts = (await findSitemapPostUrls(blogUrl)).length;
+  } catch {
+    return "none";
   }
-  return getFeedCandidates(normalized)[0] || "";
+  return sitemapPosts > (feedItems ?? 0) ? "sitemap" : "none";
 }
@@ -0,0 +1,171 @@
+/**
+ * Feed probe: fetch a URL, sniff the body (rss / rdf:RDF / feed root element or JSON Feed version) and report
+ * what the feed actually contains. Used to validate and rank feed candidates instead of trusting Content-Type.
+ */
+
+import { parseFeed, type FeedItem } from "./native-feed";
+
+export type FeedFormat = "rss" | "rdf" | "atom" | "jsonfeed";
+
+export interface FeedProbeResult {
+  /** URL that was probed */
+  url: string;
+  /** URL after redirects */
+  finalUrl: string;
+  /** HTTP status (0 if the request failed) */
+  status: number;
+  /** True if the body parsed as a feed */
+  ok: boolean;
+  format: FeedFormat | null;
+  /** Feed (channel) title */
+  title: string | null;
+  itemCount: number;
+  /** ISO date of the newest / oldest item that has a date */
+  newestItemDate: string | null;
+  oldestItemDate: string | null;
+  /** True if most items carry the full post body rather than an excerpt */
+  fullContent: boolean;
+  /** Content-Type header as served (informational; not used to decide ok) */
+  contentType: string | null;
+  /** Why the probe failed (network error, HTTP status, not a feed) */
+  error?: string;
+}
+
+/** Plain-text length above which a body is treated as a full post rather than an excerpt. */
+const FULL_TEXT_MIN_LENGTH = 1500;
+
+/** Root element / JSON Feed version of a body, or null if it isn't a feed. */
+export function sniffFeedFormat(body: string): FeedFormat | null {
+  const head = body.trimStart().slice(0, 2000);
+  if (head.startsWith("{")) {
+    return /"version"\s*:\s*"https:\/\/jsonfeed\.org\/version\//.test(head) ? "jsonfeed" : null;
+  }
+  // Skip the XML declaration, comments, doctype and stylesheet PIs, then look at the first element
+  const root = head.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/gi, "").trimStart().match(/^<([\w:-]+)/);
+  const name = root?.[1]?.toLowerCase();
+  if (name === "rss") return "rss";
+  if (name === "rdf:rdf") return "rdf";
+  if (name === "feed") return "atom";
+  return null;
+}
+
+function feedTitle(body: string, format: FeedFormat): string | null {
+  if (format === "jsonfeed") {
+    try {
+      const title = (JSON.parse(body) as { title?: unknown }).title;
+      return typeof title === "string" && title.trim() ? title.trim() : null;
+    } catch {
+      return null;
+    }
+  }
+  // Channel/feed title is the first <title> before the first item/entry
+  const firstItem = body.search(/<(item|entry)[\s>]/i);
+  const head = firstItem === -1 ? body : body.slice(0, firstItem);
+  const m = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  if (!m) return null;
+  const text = m[1]!
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .trim();
+  return text || null;
+}
+
+function plainTextLength(html: string | undefined): number {
+  if (!html) return 0;
+  return html.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim().length;
+}
+
+/** Full if the item has a body clearly longer than its summary, or a long body/summary on its own. */
+function isFullContentItem(item: FeedItem): boolean {
+  const content = plainTextLength(item.content);
+  const description = plainTextLength(item.description);
+  if (content >= FULL_TEXT_MIN_LENGTH || description >= FULL_TEXT_MIN_LENGTH) return true;
+  return content > 0 && (description === 0 || content > description * 1.2);
+}
+
+function emptyResult(url: string): FeedProbeResult {
+  return {
+    url,
+    finalUrl: url,
+    status: 0,
+    ok: false,
+    format: null,
+    title: null,
+    itemCount: 0,
+    newestItemDate: null,
+    oldestItemDate: null,
+    fullContent: false,
+    contentType: null,
+  };
+}
+
+/** Fetch url (following redirects) and describe the feed it serves. Never throws. */
+export async function probeFeed(url: string): Promise<FeedProbeResult> {
+  const result = emptyResult(url);
+  let body: string;
+  try {
+    const res = await fetch(url, { redirect: "follow" });
+    result.status = res.status;
+    result.finalUrl = res.url || url;
+    result.contentType = res.headers.get("content-type");
+    body = await res.text();
+    if (!res.ok) {
+      result.error = `HTTP ${res.status}`;
+      return result;
+    }
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : String(err);
+    return result;
+  }
+
+  const format = sniffFeedFormat(body);
+  if (!format) {
+    result.error = "Not a feed (no rss, rdf:RDF, feed or JSON Feed root)";
+    return result;
+  }
+  let items: FeedItem[];
+  try {
+    items = parseFeed(body, result.finalUrl);
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : String(err);
+    return result;
+  }
+
+  const dates = items
+    .map((i) => i.published ?? i.updated)
+    .filter((d): d is string => !!d)
+    .sort();
+  result.ok = true;
+  result.format = format;
+  result.title = feedTitle(body, format);
+  result.itemCount = items.length;
+  result.newestItemDate = dates[dates.length - 1] ?? null;
+  result.oldestItemDate = dates[0] ?? null;
+  result.fullContent = items.length > 0 && items.filter(isFullContentItem).length * 2 >= items.length;
+  return result;
+}
+
+/**
+ * Order probe results best first: feeds that parse, with items, full content, the most recent post and the most
+ * items. Ties keep input order (so earlier, e.g. HTML-advertised, candidates win). Failed probes are dropped.
+ */
+export function rankFeedProbes(results: FeedProbeResult[]): FeedProbeResult[] {
+  return results
+    .map((r, index) => ({ r, index }))
+    .filter(({ r }) => r.ok)
+    .sort((a, b) => {
+      const hasItems = Number(b.r.itemCount > 0) - Number(a.r.itemCount > 0);
+      if (hasItems) return hasItems;
+      const full = Number(b.r.fullContent) - Number(a.r.fullContent);
+      if (full) return full;
+      const newest = (b.r.newestItemDate ?? "").localeCompare(a.r.newestItemDate ?? "");
+      if (newest) return newest;
+      if (b.r.itemCount !== a.r.itemCount) return b.r.itemCount - a.r.itemCount;
+      return a.index - b.index;
+    })
+    .map(({ r }) => r);
+}
@@ -1,11 +1,161 @@
 /**
- * Resolve RSS/Atom feed URL from a blog URL.
+ * Resolve RSS/Atom/JSON Feed URL from a blog URL.
  * Substack: {blogUrl}/feed
- * Custom domain: try common paths (/feed, /feed.xml, /rss, /atom.xml)
+ * Known platforms (Ghost, WordPress, Medium, Blogger, Bear, Write.as, Hashnode, micro.blog): platform feed path
+ * Custom domain: try common paths (/feed, /feed.xml, /rss, /atom.xml, /feed.json)
  */
 
 const SUBSTACK_HOST = "substack.com";
 
+/** How sync backfills posts the feed doesn't carry (creator.json supplementStrategy). */
+export type SupplementStrategy = "substack_archive" | "sitemap" | "none";
+
+/** Blog platform id, stored as creator.json platform. "custom" = unrecognised. */
+export type Platform =
+  | "substack"
+  | "ghost"
+  | "wordpress"
+  | "medium"
+  | "blogger"
+  | "bear"
+  | "writeas"
+  | "hashnode"
+  | "microblog"
+  | "hugo"
+  | "jekyll"
+  | "custom";
+
+export interface PlatformInfo {
+  platform: Platform;
+  /** Canonical feed URL(s) for the platform, preferred first. */
+  feedUrls: string[];
+  supplementStrategy: SupplementStrategy;
+}
+
+/** Feed paths (relative to the blog base) and supplement strategy per platform. */
+const PLATFORM_FEEDS: Record<Exclude<Platform, "medium" | "writeas" | "custom">, { paths: string[]; strategy: SupplementStrategy }> = {
+  substack: { paths: ["feed"], strategy: "substack_archive" },
+  ghost: { paths: ["rss/"], strategy: "sitemap" },
+  wordpress: { paths: ["feed/", "?feed=rss2"], strategy: "sitemap" },
+  blogger: { paths: ["feeds/posts/default", "feeds/posts/default?alt=rss"], strategy: "sitemap" },
+  bear: { paths: ["feed/"], strategy: "none" },
+  hashnode: { paths: ["rss.xml"], strategy: "sitemap" },
+  microblog: { paths: ["feed.xml", "feed.json"], strategy: "none" },
+  hugo: { paths: ["index.xml"], strategy: "sitemap" },
+  jekyll: { paths: ["feed.xml"], strategy: "sitemap" },
+};
+
+function blogBase(u: URL): string {
+  return u.origin + (u.pathname === "/" || u.pathname === "" ? "" : u.pathname.replace(/\/?$/, ""));
+}
+
+/** PlatformInfo for a platform whose feeds live under the blog base URL. */
+export function platformInfoFor(platform: Platform, blogUrl: string): PlatformInfo {
+  try {
+    const u = new URL(blogUrl.trim());
+    if (platform === "medium" || platform === "writeas") {
+      return { platform, feedUrls: [`${blogBase(u)}/feed`], supplementStrategy: "none" };
+    }
+    if (platform === "custom") {
+      return { platform, feedUrls: [getFeedUrl(blogUrl)].filter(Boolean), supplementStrategy: "none" };
+    }
+    const { paths, strategy } = PLATFORM_FEEDS[platform];
+    const base = blogBase(u);
+    return {
+      platform,
+      feedUrls: paths.map((p) => `${base}/${p}`),
+      supplementStrategy: strategy,
+    };
+  } catch {
+    return { platform, feedUrls: [], supplementStrategy: "none" };
+  }
+}
+
+/**
+ * Detect the platform from the URL alone (hosted subdomains and Medium/Write.as paths). Returns null for custom
+ * domains; use detectPlatformFromHtml (or feed-discovery's detectPlatform) for those.
+ */
+export function detectPlatformFromUrl(url: string): PlatformInfo | null {
+  let u: URL;
+  try {
+    u = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  const host = u.hostname.toLowerCase();
+  const firstSegment = u.pathname.split("/").filter(Boolean)[0];
+
+  if (host.endsWith(".substack.com")) return platformInfoFor("substack", u.origin);
+  if (host === "medium.com" || host === "www.medium.com") {
+    // medium.com/@user or medium.com/<publication> → medium.com/feed/@user
+    if (!firstSegment) return null;
+    return { platform: "medium", feedUrls: [`https://medium.com/feed/${firstSegment}`], supplementStrategy: "none" };
+  }
+  if (host.endsWith(".medium.com")) return platformInfoFor("medium", u.origin);
+  if (host === "write.as") {
+    if (!firstSegment) return null;
+    return { platform: "writeas", feedUrls: [`https://write.as/${firstSegment}/feed/`], supplementStrategy: "none" };
+  }
+  if (host.endsWith(".blogspot.com")) return platformInfoFor("blogger", u.origin);
+  if (host.endsWith(".wordpress.com")) return platformInfoFor("wordpress", u.origin);
+  if (host.endsWith(".ghost.io")) return platformInfoFor("ghost", u.origin);
+  if (host.endsWith(".bearblog.dev")) return platformInfoFor("bear", u.origin);
+  if (host.endsWith(".hashnode.dev")) return platformInfoFor("hashnode", u.origin);
+  if (host.endsWith(".micro.blog")) return platformInfoFor("microblog", u.origin);
+  return null;
+}
+
+/** <meta name="generator"> values (either attribute order), checked before anything else. First match wins. */
+const GENERATOR_FINGERPRINTS: { platform: Platform; re: RegExp }[] = [
+  { platform: "substack", re: /^Substack/i },
+  { platform: "ghost", re: /^Ghost/i },
+  { platform: "wordpress", re: /^WordPress/i },
+  { platform: "blogger", re: /^Blogger/i },
+  { platform: "hashnode", re: /^Hashnode/i },
+  { platform: "writeas", re: /^(WriteFreely|Write\.as)/i },
+  { platform: "hugo", re: /^Hugo/i },
+  { platform: "jekyll", re: /^Jekyll/i },
+];
+
+/**
+ * Structural markers for pages without a generator tag: the platform's own script/stylesheet bundles, app metadata or
+ * footer links, not bare hostnames (a WordPress post that embeds a Substack or links to micro.blog is still WordPress).
+ */
+const HTML_FINGERPRINTS: { platform: Platform; re: RegExp }[] = [
+  { platform: "substack", re: /<(?:script|link)[^>]+(?:src|href)=["']https:\/\/substackcdn\.com\/bundle\//i },
+  { platform: "wordpress", re: /<(?:script|link)[^>]+(?:src|href)=["'][^"']*\/wp-(?:content|includes)\//i },
+  { platform: "blogger", re: /<(?:script|link)[^>]+(?:src|href)=["'](?:https:)?\/\/www\.blogger\.com\/static\//i },
+  { platform: "medium", re: /<meta[^>]+property=["']al:ios:app_name["'][^>]+content=["']Medium["']|<meta[^>]+content=["']Medium["'][^>]+property=["']al:ios:app_name["']/i },
+  { platform: "hashnode", re: /<(?:script|link)[^>]+(?:src|href)=["']https:\/\/cdn\.hashnode\.com\//i },
+  { platform: "bear", re: /Powered by\s*<a[^>]+href=["']https:\/\/bearblog\.dev\/?["']/i },
+  { platform: "microblog", re: /<link[^>]+rel=["']micropub["'][^>]+href=["']https:\/\/micro\.blog\/|<link[^>]+href=["']https:\/\/micro\.blog\/micropub["'][^>]+rel=["']micropub["']/i },
+];
+
+function generatorTags(html: string): string[] {
+  const out: string[] = [];
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    if (!/name\s*=\s*["']generator["']/i.test(tag)) continue;
+    const content = tag.match(/content\s*=\s*["']([^"']*)["']/i)?.[1]?.trim();
+    if (content) out.push(content);
+  }
+  return out;
+}
+
+/**
+ * Detect the platform from homepage HTML (for custom domains): generator meta tags first, then structural markers.
+ * Returns null if nothing matches.
+ */
+export function detectPlatformFromHtml(html: string): Platform | null {
+  for (const generator of generatorTags(html)) {
+    const hit = GENERATOR_FINGERPRINTS.find(({ re }) => re.test(generator));
+    if (hit) return hit.platform;
+  }
+  for (const { platform, re } of HTML_FINGERPRINTS) {
+    if (re.test(html)) return platform;
+  }
+  return null;
+}
+
 /**
  * Returns true if url is a Substack publication URL (e.g. https://foo.substack.com/ or https://substack.com/@foo).
  */
@@ -26,6 +176,9 @@ export function getFeedUrl(blogUrl: string): string {
   const normalized = blogUrl.trim();
   if (!normalized) return "";
 
+  const known = detectPlatformFromUrl(normalized);
+  if (known?.feedUrls[0]) return known.feedUrls[0];
+
   try {
     const u = new URL(normalized);
     if (u.hostname.endsWith(".substack.com")) {
@@ -45,24 +198,28 @@ export function getFeedUrl(blogUrl: string): string {
 }
 
 /** Common feed paths to try for custom domains (without leading slash; base URL has trailing slash or path). */
-export const CUSTOM_FEED_PATHS = ["feed", "feed.xml", "rss", "rss.xml", "atom.xml", "index.xml"];
+export const CUSTOM_FEED_PATHS = ["feed", "feed.xml", "rss", "rss.xml", "atom.xml", "index.xml", "feed.json"];
 
 /**
  * Return a list of candidate feed URLs for a blog URL. First is the preferred one.
+ * Pass platform (e.g. from a homepage fingerprint) to put that platform's feed paths first on custom domains.
  */
-export function getFeedCandidates(blogUrl: string): string[] {
+export function getFeedCandidates(blogUrl: string, platform?: Platform): string[] {
   const normalized = blogUrl.trim();
   if (!normalized) return [];
 
   try {
     const u = new URL(normalized);
-    const base = u.origin + (u.pathname === "/" || u.pathname === "" ? "" : u.pathname.replace(/\/?$/, ""));
+    const base = blogBase(u);
 
     if (u.hostname.endsWith(".substack.com")) {
       return [`${base}/feed`];
     }
 
-    return CUSTOM_FEED_PATHS.map((path) => `${base}/${path}`);
+    const known = detectPlatformFromUrl(normalized) ?? (platform ? platformInfoFor(platform, normalized) : null);
+    const platformFeeds = known && known.platform !== "custom" ? known.feedUrls : [];
+    const generic = CUSTOM_FEED_PATHS.map((path) => `${base}/${path}`);
+    return [...new Set([...platformFeeds, ...generic])];
   } catch {
     return [];
   }
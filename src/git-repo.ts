@@ -0,0 +1,111 @@
+/**
+ * --git scaffolding: turn a scaffolded directory into a git repo with an initial commit on main, and point origin at
+ * <repo-base-url>/<slug>. A local base (an absolute or relative path, or a file:// URL) gets a bare repo per creator
+ * that the commit is pushed to, so an index with submodules can be cloned end to end without a git host.
+ */
+
+import { existsSync } from "node:fs";
+import { mkdir } from "node:fs/promises";
+import { isAbsolute, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { spawnSync } from "node:child_process";
+
+export const DEFAULT_BRANCH = "main";
+
+function git(cwd: string, args: string[]): { ok: boolean; output: string } {
+  const res = spawnSync("git", args, { cwd, encoding: "utf-8" });
+  if (res.error) return { ok: false, output: res.error.message };
+  return { ok: res.status === 0, output: `${res.stdout ?? ""}${res.stderr ?? ""}`.trim() };
+}
+
+/** Why --git cannot run here (git missing or no commit identity), or null. */
+export function checkGitReady(cwd = process.cwd()): string | null {
+  if (!git(cwd, ["--version"]).ok) return "git is not installed or not on PATH";
+  if (!git(cwd, ["var", "GIT_COMMITTER_IDENT"]).ok) {
+    return 'git has no commit identity; set it with git config --global user.name "…" and user.email "…"';
+  }
+  return null;
+}
+
+/** Local directory for a repo base URL that is a path or file:// URL, else null (remote host). */
+export function localRepoPath(url: string): string | null {
+  if (url.startsWith("file://")) return fileURLToPath(url);
+  if (/^[\w+.-]+:\/\//.test(url) || /^[\w.-]+@[\w.-]+:/.test(url)) return null;
+  return isAbsolute(url) ? url : resolve(process.cwd(), url);
+}
+
+/**
+ * Repo URL for a creator under a base URL. Relative local bases are made absolute: git would read a relative
+ * submodule URL as relative to the index's own remote.
+ */
+export function creatorRepoUrl(baseUrl: string, slug: string): string {
+  const base = baseUrl.replace(/\/+$/, "");
+  const local = localRepoPath(base);
+  return local && !base.startsWith("file://") ? join(local, slug) : `${base}/${slug}`;
+}
+
+/** Stage everything and commit if anything changed. Returns whether a commit was made. */
+export function commitAll(dir: string, message: string): boolean {
+  const add = git(dir, ["add", "-A"]);
+  if (!add.ok) throw new Error(`git add failed in ${dir}: ${add.output}`);
+  const hasHead = git(dir, ["rev-parse", "--verify", "-q", "HEAD"]).ok;
+  if (hasHead && git(dir, ["diff", "--cached", "--quiet"]).ok) return false;
+  const commit = git(dir, ["commit", "-q", "-m", message]);
+  if (!commit.ok) throw new Error(`git commit failed in ${dir}: ${commit.output}`);
+  return true;
+}
+
+/** git init (branch main) unless dir already is a repo (or a submodule checkout). Returns whether it was created. */
+export function initRepo(dir: string): boolean {
+  if (existsSync(join(dir, ".git"))) return false;
+  const init = git(dir, ["init", "-q"]);
+  if (!init.ok) throw new Error(`git init failed in ${dir}: ${init.output}`);
+  git(dir, ["symbolic-ref", "HEAD", `refs/heads/${DEFAULT_BRANCH}`]);
+  return true;
+}
+
+/**
+ * Make a scaffolded creator repo a git repo: init, commit everything, set origin to remoteUrl. A local remote is
+ * created as a bare repo if missing and pushed to. Returns a description of each step.
+ */
+export async function initCreatorGitRepo(
+  repoDir: string,
+  options: { remoteUrl?: string | null; message?: string } = {}
+): Promise<string[]> {
+  const actions: string[] = [];
+  if (initRepo(repoDir)) actions.push("git init");
+  const created = !git(repoDir, ["rev-parse", "--verify", "-q", "HEAD"]).ok;
+  const message = options.message ?? (created ? "Scaffold creator repo from orange-tpot template" : "Update scaffold from orange-tpot template");
+  if (commitAll(repoDir, message)) actions.push(created ? "initial commit" : "commit scaffold changes");
+
+  const remoteUrl = options.remoteUrl;
+  if (!remoteUrl) return actions;
+  const current = git(repoDir, ["remote", "get-url", "origin"]);
+  if (!current.ok) {
+    git(repoDir, ["remote", "add", "origin", remoteUrl]);
+    actions.push(`origin ${remoteUrl}`);
+  } else if (current.output !== remoteUrl) {
+    git(repoDir, ["remote", "set-url", "origin", remoteUrl]);
+    actions.push(`origin ${current.output} → ${remoteUrl}`);
+  }
+
+  const local = localRepoPath(remoteUrl);
+  if (local) {
+    if (!existsSync(local)) {
+      await mkdir(local, { recursive: true });
+      const bare = git(local, ["init", "-q", "--bare"]);
+      if (!bare.ok) throw new Error(`git init --bare failed at ${local}: ${bare.output}`);
+      git(local, ["symbolic-ref", "HEAD", `refs/heads/${DEFAULT_BRANCH}`]);
+      actions.push(`bare repo ${local}`);
+    }
+    const branch = git(repoDir, ["symbolic-ref", "--short", "HEAD"]).output || DEFAULT_BRANCH;
+    const head = git(repoDir, ["rev-parse", "HEAD"]).output;
+    const pushed = git(repoDir, ["rev-parse", "--verify", "-q", `refs/remotes/origin/${branch}`]);
+    if (!pushed.ok || pushed.output !== head) {
+      const push = git(repoDir, ["push", "-q", "-u", "origin", branch]);
+      if (!push.ok) throw new Error(`git push to ${remoteUrl} failed: ${push.output}`);
+      actions.push(`pushed ${branch}`);
+    }
+  }
+  return actions;
+}
@@ -0,0 +1,232 @@
+/**
+ * Minimal Markdown → HTML renderer for the static site. Covers what html-to-markdown.ts emits for archived posts:
+ * headings, paragraphs and hard breaks, emphasis, strikethrough, code spans and fenced blocks, links, images,
+ * nested lists, blockquotes, tables, horizontal rules and footnotes ([^1] / [^1]: …). All text is HTML-escaped.
+ */
+
+export function escapeHtml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+interface Footnote {
+  label: string;
+  html: string;
+}
+
+const FENCE_RE = /^\s*(```|~~~)\s*([\w+#.-]*)\s*$/;
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR_RE = /^\s*(?:-\s*){3,}$|^\s*(?:\*\s*){3,}$|^\s*(?:_\s*){3,}$/;
+const QUOTE_RE = /^\s*>/;
+const LIST_ITEM_RE = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const FOOTNOTE_DEF_RE = /^\[\^([^\]]+)\]:\s?(.*)$/;
+const TABLE_SEP_RE = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+function safeUrl(url: string): string {
+  return /^\s*(javascript|vbscript|data):/i.test(url) && !/^\s*data:image\//i.test(url) ? "#" : url;
+}
+
+/** Inline markup for one paragraph / cell / list item. Generated tags are held as placeholders while other rules run. */
+export function renderInline(text: string): string {
+  const held: string[] = [];
+  const hold = (html: string) => `\u0000${held.push(html) - 1}\u0000`;
+
+  let s = text.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, _ticks: string, code: string) => hold(`<code>${escapeHtml(code.trim())}</code>`));
+  s = s.replace(/\\([\\`*_{}[\]()#+\-.!|~>])/g, (_, c: string) => hold(escapeHtml(c)));
+  s = escapeHtml(s);
+  s = s.replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\)/g, (_, alt: string, src: string) =>
+    hold(`<img src="${safeUrl(src)}" alt="${alt}" loading="lazy">`)
+  );
+  s = s.replace(/\[\^([^\]\s]+)\]/g, (_, label: string) =>
+    hold(`<sup class="footnote-ref" id="fnref-${label}"><a href="#fn-${label}">${label}</a></sup>`)
+  );
+  s = s.replace(/\[((?:[^\]]|\u0000\d+\u0000)+)\]\(([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\)/g, (_, inner: string, href: string) =>
+    hold(`<a href="${safeUrl(href)}">${renderEmphasis(inner)}</a>`)
+  );
+  s = s.replace(/&lt;(https?:\/\/[^\s&]+(?:&amp;[^\s&]+)*)&gt;/g, (_, url: string) => hold(`<a href="${url}">${url}</a>`));
+  s = renderEmphasis(s);
+  s = s.replace(/ {2,}\n/g, "<br>\n");
+
+  for (let i = 0; i < 5 && s.includes("\u0000"); i++) {
+    s = s.replace(/\u0000(\d+)\u0000/g, (_, n: string) => held[parseInt(n, 10)]!);
+  }
+  return s;
+}
+
+function renderEmphasis(s: string): string {
+  return s
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, "$1<strong>$2</strong>")
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, "<del>$1</del>")
+    .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?![\w*])/g, "$1<em>$2</em>")
+    .replace(/(^|[^\w])_(?=\S)([^_\n]*?\S)_(?!\w)/g, "$1<em>$2</em>");
+}
+
+function indentOf(line: string): number {
+  return line.match(/^\s*/)![0].replace(/\t/g, "    ").length;
+}
+
+function splitRow(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  const trimmed = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "");
+  for (let i = 0; i < trimmed.length; i++) {
+    if (trimmed[i] === "\\" && trimmed[i + 1] === "|") {
+      cell += "\\|";
+      i++;
+    } else if (trimmed[i] === "|") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += trimmed[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/** True if line starts a block other than a paragraph (ends a running paragraph). */
+function startsBlock(line: string): boolean {
+  return FENCE_RE.test(line) || HEADING_RE.test(line) || HR_RE.test(line) || QUOTE_RE.test(line) || LIST_ITEM_RE.test(line);
+}
+
+/** Parse a list starting at lines[start]; returns its HTML and the index after it. */
+function renderList(lines: string[], start: number, footnotes: Footnote[]): [string, number] {
+  const first = lines[start]!.match(LIST_ITEM_RE)!;
+  const baseIndent = indentOf(first[1]!);
+  const ordered = /\d/.test(first[2]!);
+  const items: { lines: string[]; loose: boolean }[] = [];
+  let i = start;
+  while (i < lines.length) {
+    const line = lines[i]!;
+    const m = line.match(LIST_ITEM_RE);
+    if (m && indentOf(m[1]!) === baseIndent && /\d/.test(m[2]!) === ordered) {
+      const contentIndent = baseIndent + m[2]!.length + 1;
+      const item = { lines: [m[3]!], loose: false };
+      i++;
+      while (i < lines.length) {
+        const next = lines[i]!;
+        if (!next.trim()) {
+          // A blank line continues the item only if indented content follows
+          const after = lines.slice(i + 1).find((l) => l.trim());
+          if (after !== undefined && indentOf(after) >= contentIndent) {
+            item.lines.push("");
+            item.loose = true;
+            i++;
+            continue;
+          }
+          break;
+        }
+        const nextItem = next.match(LIST_ITEM_RE);
+        if (nextItem && indentOf(nextItem[1]!) <= baseIndent) break;
+        if (indentOf(next) < contentIndent && startsBlock(next) && !nextItem) break;
+        item.lines.push(next.slice(Math.min(indentOf(next), contentIndent)));
+        i++;
+      }
+      items.push(item);
+      continue;
+    }
+    if (!line.trim()) {
+      const after = lines.slice(i + 1).find((l) => l.trim());
+      const afterItem = after?.match(LIST_ITEM_RE);
+      if (afterItem && indentOf(afterItem[1]!) === baseIndent && /\d/.test(afterItem[2]!) === ordered) {
+        i++;
+        continue;
+      }
+    }
+    break;
+  }
+  const startNum = ordered ? parseInt(first[2]!, 10) : 1;
+  const open = ordered ? (startNum !== 1 ? `<ol start="${startNum}">` : "<ol>") : "<ul>";
+  const body = items.map((item) => `<li>${renderBlocks(item.lines, footnotes, !item.loose)}</li>`).join("\n");
+  return [`${open}\n${body}\n${ordered ? "</ol>" : "</ul>"}`, i];
+}
+
+/** Render block-level Markdown. Tight blocks (list items) render paragraphs without <p>. */
+function renderBlocks(lines: string[], footnotes: Footnote[], tight = false): string {
+  const out: string[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i]!;
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_RE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && lines[i]!.trim() !== fence[1]) code.push(lines[i++]!);
+      i++;
+      const lang = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : "";
+      out.push(`<pre><code${lang}>${escapeHtml(code.join("\n"))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      const level = heading[1]!.length;
+      out.push(`<h${level}>${renderInline(heading[2]!)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (HR_RE.test(line)) {
+      out.push("<hr>");
+      i++;
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_RE.test(lines[i]!)) quoted.push(lines[i++]!.replace(/^\s*> ?/, ""));
+      out.push(`<blockquote>\n${renderBlocks(quoted, footnotes)}\n</blockquote>`);
+      continue;
+    }
+
+    const footnote = line.match(FOOTNOTE_DEF_RE);
+    if (footnote) {
+      const body = [footnote[2]!];
+      i++;
+      while (i < lines.length && lines[i]!.trim() && /^( {4}|\t)/.test(lines[i]!)) body.push(lines[i++]!.replace(/^( {4}|\t)/, ""));
+      footnotes.push({ label: footnote[1]!, html: renderBlocks(body, footnotes, true) });
+      continue;
+    }
+
+    if (line.includes("|") && i + 1 < lines.length && TABLE_SEP_RE.test(lines[i + 1]!)) {
+      const header = splitRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i]!.includes("|") && lines[i]!.trim()) rows.push(splitRow(lines[i++]!));
+      const cells = (r: string[], tag: string) => header.map((_, c) => `<${tag}>${renderInline(r[c] ?? "")}</${tag}>`).join("");
+      out.push(
+        `<table>\n<thead><tr>${cells(header, "th")}</tr></thead>\n<tbody>\n${rows.map((r) => `<tr>${cells(r, "td")}</tr>`).join("\n")}\n</tbody>\n</table>`
+      );
+      continue;
+    }
+
+    if (LIST_ITEM_RE.test(line)) {
+      const [html, next] = renderList(lines, i, footnotes);
+      out.push(html);
+      i = next;
+      continue;
+    }
+
+    const para: string[] = [];
+    while (i < lines.length && lines[i]!.trim() && (para.length === 0 || !startsBlock(lines[i]!))) para.push(lines[i++]!);
+    const html = renderInline(para.join("\n").trim());
+    out.push(tight ? html : `<p>${html}</p>`);
+  }
+  return out.join("\n");
+}
+
+/** Render a Markdown document to an HTML fragment (footnotes collected into a trailing section). */
+export function markdownToHtml(markdown: string): string {
+  const footnotes: Footnote[] = [];
+  const html = renderBlocks(markdown.replace(/\r\n?/g, "\n").split("\n"), footnotes);
+  if (footnotes.length === 0) return html;
+  const notes = footnotes
+    .map((f) => `<li id="fn-${escapeHtml(f.label)}">${f.html} <a href="#fnref-${escapeHtml(f.label)}" class="footnote-back">↩</a></li>`)
+    .join("\n");
+  return `${html}\n<section class="footnotes">\n<ol>\n${notes}\n</ol>\n</section>`;
+}
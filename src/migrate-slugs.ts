@@ -0,0 +1,104 @@
+/**
+ * migrate-slugs: report creator slugs in an index that change under the Unicode-aware slugify (and rename them with
+ * --apply). Only slugs the old ASCII-only slugify produced (optionally with a collision suffix) are considered; slugs
+ * chosen by hand are left alone. Renames go through renameCreatorInIndex, so the old slug stays as an alias.
+ * Post files keep their names: sync matches archived posts by link, so only new posts get transliterated names.
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { slugify } from "./parser";
+import { renameCreatorInIndex } from "./scaffold-index";
+
+export interface SlugChange {
+  displayName: string;
+  from: string;
+  to: string;
+  /** Why the change cannot be applied (target slug already used) */
+  conflict?: string;
+}
+
+/** slugify before transliteration: anything outside [a-z0-9-] was dropped. */
+function legacySlugify(name: string): string {
+  return (
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/\s+/g, "-")
+      .replace(/[^a-z0-9-]/g, "")
+      .replace(/-+/g, "-")
+      .replace(/^-|-$/g, "") || "creator"
+  );
+}
+
+/** New slug for a creator whose current slug was generated from displayName, else null. */
+function migratedSlug(current: string, displayName: string): string | null {
+  const legacy = legacySlugify(displayName);
+  if (current === slugify(displayName)) return null;
+  if (current === legacy) return slugify(displayName);
+  // Collision suffix from bulk scaffolding ("jane-doe-3f9a1c")
+  const suffix = current.startsWith(`${legacy}-`) ? current.slice(legacy.length) : "";
+  if (/^-[0-9a-f]{6,32}$/.test(suffix)) return `${slugify(displayName)}${suffix}`;
+  return null;
+}
+
+/** Slug changes for every subrepos/<slug> creator in the index, with conflicts marked. */
+export async function planSlugMigration(indexDir: string): Promise<SlugChange[]> {
+  const used = new Set<string>();
+  try {
+    const repos = JSON.parse(await readFile(join(indexDir, "creators", "repos.json"), "utf-8"));
+    if (Array.isArray(repos)) for (const r of repos) if (r && typeof r === "object" && r.slug) used.add(r.slug);
+  } catch {
+    // no repos.json
+  }
+
+  const changes: SlugChange[] = [];
+  const dirs = (await readdir(join(indexDir, "subrepos"), { withFileTypes: true }).catch(() => []))
+    .filter((d) => d.isDirectory() && !d.name.startsWith("."))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  for (const d of dirs) used.add(d.name);
+  for (const d of dirs) {
+    let creator: { displayName?: string; slug?: string };
+    try {
+      creator = JSON.parse(await readFile(join(indexDir, "subrepos", d.name, "creator.json"), "utf-8"));
+    } catch {
+      continue;
+    }
+    if (!creator.displayName) continue;
+    const to = migratedSlug(d.name, creator.displayName);
+    if (!to || to === d.name) continue;
+    changes.push({ displayName: creator.displayName, from: d.name, to });
+  }
+
+  const targets = new Map<string, number>();
+  for (const c of changes) targets.set(c.to, (targets.get(c.to) ?? 0) + 1);
+  for (const c of changes) {
+    if (used.has(c.to)) c.conflict = `"${c.to}" is already used in the index`;
+    else if (targets.get(c.to)! > 1) c.conflict = `more than one creator would become "${c.to}"`;
+  }
+  return changes;
+}
+
+/** Rename every change without a conflict. Returns the changes that failed, with the error. */
+export async function applySlugMigration(
+  indexDir: string,
+  changes: SlugChange[]
+): Promise<{ change: SlugChange; error: string }[]> {
+  const failed: { change: SlugChange; error: string }[] = [];
+  for (const change of changes) {
+    if (change.conflict) continue;
+    try {
+      await renameCreatorInIndex(indexDir, change.from, change.to);
+    } catch (err) {
+      failed.push({ change, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return failed;
+}
+
+/** One line per change; conflicts are marked and skipped by --apply. */
+export function formatSlugChanges(changes: SlugChange[]): string {
+  return changes
+    .map((c) => `${c.from} → ${c.to}  (${c.displayName})${c.conflict ? `  [skipped: ${c.conflict}]` : ""}`)
+    .join("\n");
+}
@@ -0,0 +1,135 @@
+/**
+ * Migrations run by update after template files are applied: data-format changes in user-owned files
+ * (creator.json, creators/repos.json) that template files alone cannot carry.
+ * Each migration is keyed by the template version that introduced the format; update runs those after the repo's
+ * .orange-tpot-version up to the target version, in registry order. Every migration is idempotent (a repo already
+ * in the new format reports no changes), so re-running an update or an unknown starting version is safe.
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { detectPlatformFromUrl } from "./feeds";
+import { isTemplateVersionTag } from "./config";
+import { repoEntrySlug } from "./scaffold-index";
+import type { RepoType } from "./update-from-template";
+
+export interface Migration {
+  /** Template version that introduced the change (runs when updating past it) */
+  version: string;
+  id: string;
+  description: string;
+  appliesTo: RepoType;
+  /** Apply to the repo at dir and return one line per change; with dryRun, only report. */
+  run(dir: string, dryRun: boolean): Promise<string[]>;
+}
+
+export interface MigrationResult {
+  id: string;
+  version: string;
+  description: string;
+  changes: string[];
+}
+
+async function readJson(path: string): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(path, "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeJson(path: string, value: unknown): Promise<void> {
+  await writeFile(path, JSON.stringify(value, null, 2) + "\n", "utf-8");
+}
+
+/** Registry, in the order migrations run. Append new entries; never edit one that has shipped. */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: "0.1.3",
+    id: "creator-json-fields",
+    description: "creator.json: add platform, fetcher and keepRevisions",
+    appliesTo: "creator",
+    async run(dir, dryRun) {
+      const path = join(dir, "creator.json");
+      const creator = await readJson(path);
+      if (!creator || typeof creator !== "object" || Array.isArray(creator)) return [];
+      const c = creator as Record<string, unknown>;
+      const added: Record<string, unknown> = {};
+      if (typeof c.platform !== "string" || !c.platform) {
+        added.platform = (typeof c.blogUrl === "string" && detectPlatformFromUrl(c.blogUrl)?.platform) || "custom";
+      }
+      // Defaults that keep how older repos already sync
+      if (c.fetcher === undefined) added.fetcher = "blog-toolkit";
+      if (c.keepRevisions === undefined) added.keepRevisions = false;
+      if (Object.keys(added).length === 0) return [];
+      if (!dryRun) await writeJson(path, { ...c, ...added });
+      return Object.entries(added).map(([k, v]) => `creator.json: add ${k} = ${JSON.stringify(v)}`);
+    },
+  },
+  {
+    version: "0.1.3",
+    id: "repos-json-objects",
+    description: "creators/repos.json: turn plain URL entries into { url, slug } objects",
+    appliesTo: "index",
+    async run(dir, dryRun) {
+      const path = join(dir, "creators", "repos.json");
+      const repos = await readJson(path);
+      if (!Array.isArray(repos) || !repos.some((r) => typeof r === "string")) return [];
+      const changes: string[] = [];
+      const normalized = repos.map((r) => {
+        if (typeof r !== "string") return r;
+        const slug = repoEntrySlug(r);
+        changes.push(`creators/repos.json: ${r} → { slug: "${slug}" }`);
+        return { url: r, slug };
+      });
+      if (!dryRun) await writeJson(path, normalized);
+      return changes;
+    },
+  },
+];
+
+/** Numeric parts of a release version ("v0.1.2" → [0, 1, 2]). */
+function versionParts(version: string): number[] {
+  return version.replace(/^v/, "").split(/[-+]/)[0]!.split(".").map((n) => parseInt(n, 10) || 0);
+}
+
+export function compareVersions(a: string, b: string): number {
+  const pa = versionParts(a);
+  const pb = versionParts(b);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const d = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (d !== 0) return d;
+  }
+  return 0;
+}
+
+/**
+ * Migrations for a repo of this type going from one template version to another: version > from and <= to.
+ * An unknown or branch "from" runs everything up to "to"; a branch or local "to" has no upper bound.
+ */
+export function pendingMigrations(type: RepoType, from: string | null, to: string): Migration[] {
+  const lower = from && isTemplateVersionTag(from) ? from : null;
+  const upper = isTemplateVersionTag(to) ? to : null;
+  return MIGRATIONS.filter(
+    (m) =>
+      m.appliesTo === type &&
+      (!lower || compareVersions(m.version, lower) > 0) &&
+      (!upper || compareVersions(m.version, upper) <= 0)
+  );
+}
+
+/** Run pending migrations in order. Every pending migration is returned, with no changes if it had nothing to do. */
+export async function runMigrations(
+  dir: string,
+  type: RepoType,
+  from: string | null,
+  to: string,
+  options: { dryRun?: boolean } = {}
+): Promise<MigrationResult[]> {
+  const results: MigrationResult[] = [];
+  for (const m of pendingMigrations(type, from, to)) {
+    const changes = await m.run(dir, !!options.dryRun);
+    results.push({ id: m.id, version: m.version, description: m.description, changes });
+  }
+  return results;
+}
@@ -0,0 +1,252 @@
+/**
+ * Native feed fetcher for creator repos: fetches creator.json feedUrls and parses RSS 2.0 / RSS 1.0 (RDF) / Atom /
+ * JSON Feed 1.0 and 1.1 into the same post shape blog-toolkit pull emits
+ * (title, link, published, updated, content, description, guid).
+ * No dependencies; used by sync-posts.ts when fetcher is "native" or uvx is unavailable.
+ */
+
+/** One feed entry, shaped like a blog-toolkit pull post so it can go through the same ingest path. */
+export interface FeedItem {
+  title?: string;
+  link?: string;
+  published?: string;
+  updated?: string;
+  content?: string;
+  description?: string;
+  guid?: string;
+}
+
+const USER_AGENT = "orange-tpot-sync (+https://github.com/metaspn/orange-tpot-tooling)";
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (whole, ent: string) => {
+    if (ent[0] === "#") {
+      const code = ent[1] === "x" || ent[1] === "X" ? parseInt(ent.slice(2), 16) : parseInt(ent.slice(1), 10);
+      return isNaN(code) ? whole : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[ent.toLowerCase()] ?? whole;
+  });
+}
+
+/** Text content of an element body: CDATA sections kept verbatim, everything else entity-decoded. */
+function textContent(raw: string): string {
+  const re = /<!\[CDATA\[([\s\S]*?)\]\]>/g;
+  let out = "";
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(raw)) !== null) {
+    out += decodeEntities(raw.slice(last, m.index)) + m[1];
+    last = re.lastIndex;
+  }
+  out += decodeEntities(raw.slice(last));
+  return out.trim();
+}
+
+function escapeTagName(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** First element matching one of names (e.g. "content:encoded"). Returns attributes and raw inner body. */
+function findElement(block: string, names: string[]): { attrs: string; body: string } | null {
+  for (const name of names) {
+    const tag = escapeTagName(name);
+    const re = new RegExp(`<${tag}(\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i");
+    const m = block.match(re);
+    if (m) return { attrs: m[1] ?? "", body: m[2] ?? "" };
+  }
+  return null;
+}
+
+function elementText(block: string, names: string[]): string | undefined {
+  const el = findElement(block, names);
+  if (!el) return undefined;
+  const text = textContent(el.body);
+  return text || undefined;
+}
+
+function getAttr(attrs: string, name: string): string | undefined {
+  const m = attrs.match(new RegExp(`(?:^|\\s)${escapeTagName(name)}\\s*=\\s*["']([^"']*)["']`, "i"));
+  return m ? decodeEntities(m[1]!) : undefined;
+}
+
+function splitBlocks(xml: string, tag: string): string[] {
+  const re = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "gi");
+  const blocks: string[] = [];
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(xml)) !== null) blocks.push(m[1]!);
+  return blocks;
+}
+
+function toIsoDate(raw: string | undefined): string | undefined {
+  if (!raw) return undefined;
+  const d = new Date(raw.trim());
+  return isNaN(d.getTime()) ? undefined : d.toISOString();
+}
+
+function absolutize(url: string | undefined, baseUrl: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url.trim(), baseUrl).href;
+  } catch {
+    return url.trim();
+  }
+}
+
+function parseRssItem(block: string, baseUrl: string): FeedItem {
+  const link = elementText(block, ["link"]);
+  const guidEl = findElement(block, ["guid"]);
+  const guid = guidEl ? textContent(guidEl.body) || undefined : undefined;
+  // <guid isPermaLink="true"> (the RSS default) doubles as the link when <link> is missing
+  const guidIsLink = guidEl && getAttr(guidEl.attrs, "isPermaLink")?.toLowerCase() !== "false";
+  return {
+    title: elementText(block, ["title"]),
+    link: absolutize(link ?? (guidIsLink ? guid : undefined), baseUrl),
+    published: toIsoDate(elementText(block, ["pubDate", "dc:date", "published"])),
+    updated: toIsoDate(elementText(block, ["atom:updated", "dc:modified", "updated"])),
+    content: elementText(block, ["content:encoded"]),
+    description: elementText(block, ["description", "summary"]),
+    guid,
+  };
+}
+
+function atomLink(block: string, baseUrl: string): string | undefined {
+  const re = /<link\s([^>]*?)\/?>/gi;
+  let fallback: string | undefined;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(block)) !== null) {
+    const href = getAttr(m[1]!, "href");
+    if (!href) continue;
+    const rel = getAttr(m[1]!, "rel")?.toLowerCase();
+    if (!rel || rel === "alternate") return absolutize(href, baseUrl);
+    fallback ??= rel === "self" ? undefined : href;
+  }
+  return absolutize(fallback, baseUrl);
+}
+
+/** Atom text constructs: type="xhtml" content is inline markup, html/text are escaped. */
+function atomText(block: string, names: string[]): string | undefined {
+  const el = findElement(block, names);
+  if (!el) return undefined;
+  const type = getAttr(el.attrs, "type")?.toLowerCase();
+  if (type === "xhtml") {
+    const inner = el.body.replace(/^\s*<div[^>]*>/i, "").replace(/<\/div>\s*$/i, "");
+    return inner.trim() || undefined;
+  }
+  return textContent(el.body) || undefined;
+}
+
+function parseAtomEntry(block: string, baseUrl: string): FeedItem {
+  const published = toIsoDate(elementText(block, ["published", "issued"]));
+  const updated = toIsoDate(elementText(block, ["updated", "modified"]));
+  return {
+    title: atomText(block, ["title"]),
+    link: atomLink(block, baseUrl),
+    published: published ?? updated,
+    updated,
+    content: atomText(block, ["content"]),
+    description: atomText(block, ["summary"]),
+    guid: elementText(block, ["id"]),
+  };
+}
+
+/**
+ * Parse an RSS 2.0, RSS 1.0 (RDF) or Atom document into feed items.
+ * Throws if the document has no recognisable feed root element.
+ */
+export function parseFeedXml(xml: string, baseUrl: string): FeedItem[] {
+  const head = xml.slice(0, 2000);
+  if (/<feed[\s>]/i.test(head)) {
+    return splitBlocks(xml, "entry").map((b) => parseAtomEntry(b, baseUrl));
+  }
+  if (/<rss[\s>]/i.test(head) || /<rdf:RDF[\s>]/i.test(head)) {
+    return splitBlocks(xml, "item").map((b) => parseRssItem(b, baseUrl));
+  }
+  throw new Error("Not an RSS or Atom feed (no <rss>, <rdf:RDF> or <feed> root)");
+}
+
+/** JSON Feed item fields we read (https://jsonfeed.org/version/1.1). */
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  date_published?: string;
+  date_modified?: string;
+}
+
+function optionalString(v: unknown): string | undefined {
+  return typeof v === "string" && v.trim() ? v.trim() : undefined;
+}
+
+/**
+ * Parse a JSON Feed 1.0 / 1.1 document into feed items.
+ * Throws if the document has no jsonfeed.org version.
+ */
+export function parseJsonFeed(json: string, baseUrl: string): FeedItem[] {
+  const data = JSON.parse(json) as { version?: unknown; items?: unknown };
+  if (typeof data.version !== "string" || !data.version.startsWith("https://jsonfeed.org/version/")) {
+    throw new Error("Not a JSON Feed (missing https://jsonfeed.org/version/ version)");
+  }
+  if (!Array.isArray(data.items)) return [];
+  return (data.items as JsonFeedItem[]).map((item) => {
+    const link = optionalString(item.url) ?? optionalString(item.external_url);
+    return {
+      title: optionalString(item.title),
+      link: absolutize(link, baseUrl),
+      published: toIsoDate(optionalString(item.date_published) ?? optionalString(item.date_modified)),
+      updated: toIsoDate(optionalString(item.date_modified)),
+      content: optionalString(item.content_html) ?? optionalString(item.content_text),
+      description: optionalString(item.summary),
+      guid: item.id != null ? String(item.id) : undefined,
+    };
+  });
+}
+
+/** Parse a feed body, choosing JSON Feed or XML by its first character. */
+export function parseFeed(body: string, baseUrl: string): FeedItem[] {
+  return body.trimStart().startsWith("{") ? parseJsonFeed(body, baseUrl) : parseFeedXml(body, baseUrl);
+}
+
+/** Fetch one feed URL and parse it. */
+export async function fetchFeed(feedUrl: string): Promise<FeedItem[]> {
+  const res = await fetch(feedUrl, { redirect: "follow", headers: { "User-Agent": USER_AGENT } });
+  if (!res.ok) throw new Error(`Feed ${feedUrl} returned ${res.status}`);
+  const body = await res.text();
+  return parseFeed(body, res.url || feedUrl);
+}
+
+/**
+ * Fetch every feed URL and return all items (dedup happens at ingest).
+ * A feed that fails is reported and skipped; throws only if every feed failed.
+ */
+export async function fetchFeedItems(feedUrls: string[]): Promise<FeedItem[]> {
+  const items: FeedItem[] = [];
+  const errors: string[] = [];
+  for (const url of feedUrls) {
+    try {
+      const feedItems = await fetchFeed(url);
+      console.log(`Fetched ${feedItems.length} item(s) from ${url}`);
+      items.push(...feedItems);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`Failed to fetch ${url}: ${message}`);
+      errors.push(message);
+    }
+  }
+  if (feedUrls.length > 0 && errors.length === feedUrls.length) {
+    throw new Error(`All feeds failed: ${errors.join("; ")}`);
+  }
+  return items;
+}
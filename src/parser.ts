@@ -6,8 +6,10 @@
 import { createHash } from "node:crypto";
 import { readdir, readFile } from "node:fs/promises";
 import { join, basename } from "node:path";
+import { slugify as slugifyText } from "./slug";
 
 const BLOGGER_FILENAME_RE = /^(.+?)\s+([0-9a-f]{32})\.md$/i;
+const HEX_ID_RE = /^[0-9a-f]{32}$/i;
 
 export interface Blogger {
   /** Display name from filename or # heading */
@@ -20,7 +22,7 @@ export interface Blogger {
   followUrl: string | null;
   /** Optional image URL */
   imageUrl: string | null;
-  /** 32-char hex id from filename (stable id) */
+  /** 32-char hex id from the directory filename (stable id; carried in data/creators.json and creator.json) */
   hexId: string;
   /** Slug for repo/dir (safe filename from display name) */
   slug: string;
@@ -28,14 +30,9 @@ export interface Blogger {
   hasFeed: boolean;
 }
 
-function slugify(name: string): string {
-  return name
-    .trim()
-    .toLowerCase()
-    .replace(/\s+/g, "-")
-    .replace(/[^a-z0-9-]/g, "")
-    .replace(/-+/g, "-")
-    .replace(/^-|-$/g, "") || "creator";
+/** Creator slug from a display name (shared with the creator template; transliterates, hash fallback). */
+export function slugify(name: string): string {
+  return slugifyText(name, { fallback: "creator" });
 }
 
 function parseKeyValue(line: string): { key: string; value: string } | null {
@@ -101,7 +98,8 @@ export async function parseBloggerDirectory(dataDir: string): Promise<Blogger[]>
   const entries = await readdir(dataDir, { withFileTypes: true });
   const files = entries
     .filter((e) => e.isFile() && e.name.endsWith(".md") && BLOGGER_FILENAME_RE.test(e.name))
-    .map((e) => join(dataDir, e.name));
+    .map((e) => join(dataDir, e.name))
+    .sort();
 
   const results: Blogger[] = [];
   for (const file of files) {
@@ -125,26 +123,98 @@ export function findBlogger(bloggers: Blogger[], idOrName: string): Blogger | un
   );
 }
 
+/** True for a 32-char hex id like the ones in blogger directory filenames. */
+export function isHexId(value: unknown): value is string {
+  return typeof value === "string" && HEX_ID_RE.test(value);
+}
+
+/** Id for a blogger with no directory entry: the first 32 hex chars of the SHA-256 of the blog URL. */
+export function hexIdFromBlogUrl(blogUrl: string): string {
+  return createHash("sha256").update(blogUrl.trim()).digest("hex").slice(0, 32);
+}
+
 /**
  * Build a Blogger from manual entry (display name, blog URL, optional follow URL and blog name).
- * Used by interactive "Enter manually" flow.
+ * Used by interactive "Enter manually" flow and for master list entries. hexId is the canonical id when known
+ * (master list entries exported from the directory); otherwise one is derived from the blog URL.
  */
 export function bloggerFromManual(
   displayName: string,
   blogUrl: string,
   followUrl?: string,
-  blogName?: string
+  blogName?: string,
+  hexId?: string
 ): Blogger {
   const slug = slugify(displayName);
-  const hexId = createHash("sha256").update(blogUrl.trim()).digest("hex").slice(0, 32);
+  const id = isHexId(hexId) ? hexId.toLowerCase() : hexIdFromBlogUrl(blogUrl);
   return {
     displayName: displayName.trim(),
     blogName: blogName?.trim() ?? null,
     blogUrl: blogUrl.trim() || null,
     followUrl: followUrl?.trim() ?? null,
     imageUrl: null,
-    hexId,
+    hexId: id,
     slug,
     hasFeed: !!blogUrl?.trim(),
   };
 }
+
+export interface SlugCollision {
+  /** Slug that more than one blogger mapped to */
+  slug: string;
+  /** hexId that keeps the slug: the owner of an existing repo with that slug, else the first blogger in list order */
+  ownerHexId: string;
+  /** Bloggers moved to a suffixed slug */
+  renamed: { displayName: string; hexId: string; slug: string }[];
+}
+
+/**
+ * Give every blogger a unique slug before anything is written. Bloggers that share a slug (including the "creator"
+ * fallback) or that would land on an existing repo owned by another hexId get "<slug>-<first 6 hex chars>"
+ * (longer if that is taken too). existingOwners maps slugs already on disk to their creator.json hexId.
+ * Returns copies of the bloggers with final slugs, in the same order, and one entry per collision.
+ */
+export function resolveSlugCollisions(
+  bloggers: Blogger[],
+  existingOwners: Map<string, string> = new Map()
+): { bloggers: Blogger[]; collisions: SlugCollision[] } {
+  const bySlug = new Map<string, Blogger[]>();
+  for (const b of bloggers) bySlug.set(b.slug, [...(bySlug.get(b.slug) ?? []), b]);
+
+  const taken = new Set(bySlug.keys());
+  // A suffixed slug is free unless another blogger in this run has it or an existing repo of another hexId uses it
+  const isFree = (candidate: string, hexId: string) =>
+    !taken.has(candidate) && (existingOwners.get(candidate) ?? hexId).toLowerCase() === hexId.toLowerCase();
+  const finalSlug = new Map<Blogger, string>();
+  const collisions: SlugCollision[] = [];
+  for (const [slug, group] of bySlug) {
+    const diskOwner = existingOwners.get(slug)?.toLowerCase();
+    const owner = diskOwner !== undefined ? group.find((b) => b.hexId.toLowerCase() === diskOwner) : group[0];
+    if (group.length === 1 && owner) continue;
+    const collision: SlugCollision = { slug, ownerHexId: owner?.hexId ?? existingOwners.get(slug)!, renamed: [] };
+    for (const b of group) {
+      if (b === owner) continue;
+      let len = 6;
+      let candidate = `${slug}-${b.hexId.slice(0, len).toLowerCase()}`;
+      while (!isFree(candidate, b.hexId) && len < b.hexId.length) candidate = `${slug}-${b.hexId.slice(0, (len += 2)).toLowerCase()}`;
+      taken.add(candidate);
+      finalSlug.set(b, candidate);
+      collision.renamed.push({ displayName: b.displayName, hexId: b.hexId, slug: candidate });
+    }
+    collisions.push(collision);
+  }
+  return {
+    bloggers: bloggers.map((b) => (finalSlug.has(b) ? { ...b, slug: finalSlug.get(b)! } : b)),
+    collisions,
+  };
+}
+
+/** One line per renamed blogger, for run output. */
+export function formatSlugCollisions(collisions: SlugCollision[]): string[] {
+  return collisions.flatMap((c) =>
+    c.renamed.map(
+      (r) =>
+        `Slug collision on "${c.slug}" (kept by ${c.ownerHexId ? c.ownerHexId.slice(0, 6) : "an existing directory"}): ${r.displayName} → ${r.slug}`
+    )
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * Archive stats for a creator repo: post count, published date range, last publish/edit time and word counts.
+ * Creator repos write them to stats.json on sync, so an index can build its manifest without checking the repo out;
+ * an index's update-manifest computes the same stats for checked-out subrepos.
+ */
+
+import { readFile, readdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/** stats.json shape (read by the index repo's update-manifest in remote mode). */
+export interface PostStats {
+  postCount: number;
+  /** Oldest and newest published date (ISO 8601) across posts with a date */
+  firstPostDate: string | null;
+  latestPostDate: string | null;
+  /** Most recent post publish / edit time (ISO 8601) */
+  lastUpdated: string | null;
+  wordCount: number;
+  /** wordCount / postCount, rounded */
+  averageWordCount: number;
+}
+
+/** Fields read from metadata/<baseName>.json. */
+interface PostMeta {
+  published?: string | null;
+  updated?: string;
+  editedAt?: string;
+}
+
+function validIso(value: unknown): string | null {
+  if (typeof value !== "string" || !value) return null;
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+/** Words in a post's Markdown body: the "# title / Published / Link" header and link/image URLs are not counted. */
+export function countWords(markdown: string): number {
+  const body = markdown.replace(/^# .*\n+(?:- \*\*(?:Published|Link):\*\*.*\n)*/, "");
+  const text = body
+    .replace(/```[a-z]*\n?/gi, " ")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[#>*_`|~-]+/g, " ");
+  return text.split(/\s+/).filter((w) => /[\p{L}\p{N}]/u.test(w)).length;
+}
+
+/** Stats for the archive under rootDir (metadata/*.json for dates, posts/*.md for words). */
+export async function computePostStats(rootDir: string): Promise<PostStats> {
+  const metaDir = join(rootDir, "metadata");
+  const metaFiles = (await readdir(metaDir).catch(() => [])).filter((f) => f.endsWith(".json"));
+  const stats: PostStats = {
+    postCount: metaFiles.length,
+    firstPostDate: null,
+    latestPostDate: null,
+    lastUpdated: null,
+    wordCount: 0,
+    averageWordCount: 0,
+  };
+
+  for (const f of metaFiles) {
+    let meta: PostMeta;
+    try {
+      meta = JSON.parse(await readFile(join(metaDir, f), "utf-8")) as PostMeta;
+    } catch {
+      continue;
+    }
+    const published = validIso(meta.published);
+    if (published) {
+      if (!stats.firstPostDate || published < stats.firstPostDate) stats.firstPostDate = published;
+      if (!stats.latestPostDate || published > stats.latestPostDate) stats.latestPostDate = published;
+    }
+    for (const t of [published, validIso(meta.updated), validIso(meta.editedAt)]) {
+      if (t && (!stats.lastUpdated || t > stats.lastUpdated)) stats.lastUpdated = t;
+    }
+    try {
+      stats.wordCount += countWords(await readFile(join(rootDir, "posts", f.replace(/\.json$/, ".md")), "utf-8"));
+    } catch {
+      // metadata without a post file
+    }
+  }
+  stats.averageWordCount = stats.postCount ? Math.round(stats.wordCount / stats.postCount) : 0;
+  return stats;
+}
+
+/** Compute stats and write them to rootDir/stats.json. */
+export async function writePostStats(rootDir: string): Promise<PostStats> {
+  const stats = await computePostStats(rootDir);
+  await writeFile(join(rootDir, "stats.json"), JSON.stringify(stats, null, 2) + "\n", "utf-8");
+  return stats;
+}
@@ -0,0 +1,118 @@
+/**
+ * reconcile-ids: set each creator repo's creator.json hexId to the canonical id from the blogger directory or the
+ * master list. Repos scaffolded from the master list or manual entry before ids were exported got a hexId hashed
+ * from their blog URL; this matches them to the canonical entry by hexId, then blog URL, then display name.
+ */
+
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/** A creator with its canonical id (blogger directory file or data/creators.json entry). */
+export interface CanonicalCreator {
+  hexId: string;
+  displayName: string;
+  blogUrl: string | null;
+}
+
+export interface IdReconciliation {
+  /** Creator repo directory name */
+  slug: string;
+  displayName: string;
+  current: string | null;
+  canonical: string | null;
+  status: "ok" | "would_update" | "updated" | "unmatched";
+  matchedBy?: "hexId" | "blogUrl" | "displayName";
+  /** Why no canonical entry was found */
+  detail?: string;
+}
+
+/** Blog URL for matching: no scheme, www. or trailing slash, lowercase host. */
+function normalizeBlogUrl(url: string | null | undefined): string | null {
+  if (!url?.trim()) return null;
+  try {
+    const u = new URL(url.trim());
+    return `${u.hostname.toLowerCase().replace(/^www\./, "")}${u.pathname.replace(/\/+$/, "")}`;
+  } catch {
+    return url.trim().toLowerCase().replace(/^https?:\/\/(www\.)?/, "").replace(/\/+$/, "");
+  }
+}
+
+function matchCanonical(
+  creator: { hexId?: string; displayName?: string; blogUrl?: string | null },
+  canonical: CanonicalCreator[]
+): { entry: CanonicalCreator | null; matchedBy?: IdReconciliation["matchedBy"]; detail?: string } {
+  const byId = canonical.find((c) => creator.hexId && c.hexId.toLowerCase() === creator.hexId.toLowerCase());
+  if (byId) return { entry: byId, matchedBy: "hexId" };
+  const url = normalizeBlogUrl(creator.blogUrl);
+  const byUrl = url ? canonical.filter((c) => normalizeBlogUrl(c.blogUrl) === url) : [];
+  if (byUrl.length === 1) return { entry: byUrl[0]!, matchedBy: "blogUrl" };
+  const name = creator.displayName?.trim().toLowerCase();
+  const byName = name ? canonical.filter((c) => c.displayName.trim().toLowerCase() === name) : [];
+  if (byName.length === 1) return { entry: byName[0]!, matchedBy: "displayName" };
+  if (byUrl.length > 1 || byName.length > 1) return { entry: null, detail: "several canonical entries match" };
+  return { entry: null, detail: "no canonical entry with this id, blog URL or name" };
+}
+
+/**
+ * Reconcile every creator repo directly under reposDir (e.g. <index>/subrepos or ./creators). With apply, writes the
+ * canonical hexId to creator.json; no other field is changed.
+ */
+export async function reconcileCreatorIds(
+  reposDir: string,
+  canonical: CanonicalCreator[],
+  options: { apply?: boolean } = {}
+): Promise<IdReconciliation[]> {
+  const dirs = (await readdir(reposDir, { withFileTypes: true }).catch(() => []))
+    .filter((d) => d.isDirectory() && !d.name.startsWith("."))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const results: IdReconciliation[] = [];
+  for (const d of dirs) {
+    const path = join(reposDir, d.name, "creator.json");
+    let creator: Record<string, unknown>;
+    try {
+      creator = JSON.parse(await readFile(path, "utf-8"));
+    } catch {
+      continue;
+    }
+    const current = typeof creator.hexId === "string" && creator.hexId ? creator.hexId : null;
+    const displayName = typeof creator.displayName === "string" ? creator.displayName : d.name;
+    const { entry, matchedBy, detail } = matchCanonical(
+      { hexId: current ?? undefined, displayName, blogUrl: typeof creator.blogUrl === "string" ? creator.blogUrl : null },
+      canonical
+    );
+    if (!entry) {
+      results.push({ slug: d.name, displayName, current, canonical: null, status: "unmatched", detail });
+      continue;
+    }
+    if (current === entry.hexId) {
+      results.push({ slug: d.name, displayName, current, canonical: entry.hexId, status: "ok", matchedBy });
+      continue;
+    }
+    if (options.apply) {
+      creator.hexId = entry.hexId;
+      await writeFile(path, JSON.stringify(creator, null, 2) + "\n", "utf-8");
+    }
+    results.push({
+      slug: d.name,
+      displayName,
+      current,
+      canonical: entry.hexId,
+      status: options.apply ? "updated" : "would_update",
+      matchedBy,
+    });
+  }
+  return results;
+}
+
+/** One line per repo that changes or could not be matched, then a count of repos already on the canonical id. */
+export function formatReconciliation(results: IdReconciliation[]): string {
+  const lines: string[] = [];
+  for (const r of results) {
+    if (r.status === "ok") continue;
+    if (r.status === "unmatched") lines.push(`${r.slug}: unmatched (${r.detail})`);
+    else lines.push(`${r.slug}: ${r.current ?? "(none)"} → ${r.canonical} (by ${r.matchedBy})${r.status === "updated" ? "" : " [would update]"}`);
+  }
+  const ok = results.filter((r) => r.status === "ok").length;
+  lines.push(`${ok} of ${results.length} creator repo(s) already have the canonical id`);
+  return lines.join("\n");
+}
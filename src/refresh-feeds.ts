@@ -0,0 +1,153 @@
+/**
+ * refresh-feeds: re-resolve blogUrl, feedUrls and supplementStrategy for existing creator repos (e.g. after a move
+ * from Substack to a custom domain or a feed path change) and propose, or with apply write, the changes.
+ * Only blogUrl, feedUrls, supplementStrategy and platform are touched; every other creator.json field is kept as is.
+ */
+
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { detectPlatform, resolveFeedUrl, resolveSupplementStrategy } from "./feed-discovery";
+import { probeFeed } from "./feed-probe";
+
+/** Fields refresh-feeds may rewrite. */
+type RefreshField = "blogUrl" | "feedUrls" | "supplementStrategy" | "platform";
+
+export interface FieldChange {
+  field: RefreshField;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RefreshResult {
+  /** Creator repo directory */
+  dir: string;
+  slug: string;
+  changes: FieldChange[];
+  /** True if creator.json was rewritten */
+  applied: boolean;
+  /** Why the creator was skipped (unreadable creator.json, blog unreachable, ...) */
+  error?: string;
+}
+
+/** Compare URLs ignoring a trailing slash. */
+function sameUrl(a: string, b: string): boolean {
+  return a.replace(/\/$/, "") === b.replace(/\/$/, "");
+}
+
+/**
+ * Where blogUrl ends up after redirects, without query or hash. Returns null if the blog is unreachable
+ * (so a temporarily down blog is not "moved").
+ */
+async function followBlogUrl(blogUrl: string): Promise<string | null> {
+  try {
+    const res = await fetch(blogUrl, { redirect: "follow" });
+    await res.body?.cancel();
+    if (!res.ok) return null;
+    const u = new URL(res.url || blogUrl);
+    u.search = "";
+    u.hash = "";
+    return u.href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Work out what creator.json should say now. The blog is followed through redirects; if it moved to another host,
+ * or none of the current feeds still serves a feed, the feed is re-resolved with resolveFeedUrl. Working feeds are
+ * kept at their post-redirect URL, and failing ones are kept too (they may be down for a day) unless the host moved
+ * or a replacement was found. supplementStrategy is only re-resolved when blogUrl or feedUrls change, so a healthy
+ * config is left alone.
+ */
+export async function proposeRefresh(creator: Record<string, unknown>): Promise<{ changes: FieldChange[]; error?: string }> {
+  const blogUrl = typeof creator.blogUrl === "string" ? creator.blogUrl.trim() : "";
+  if (!blogUrl) return { changes: [], error: "no blogUrl in creator.json" };
+  const finalBlogUrl = await followBlogUrl(blogUrl);
+  if (!finalBlogUrl) return { changes: [], error: `blog ${blogUrl} is unreachable` };
+
+  const newBlogUrl = sameUrl(finalBlogUrl, blogUrl) ? blogUrl : finalBlogUrl;
+  const moved = new URL(newBlogUrl).host !== new URL(blogUrl).host;
+  const currentFeeds = Array.isArray(creator.feedUrls) ? (creator.feedUrls as unknown[]).filter((u): u is string => typeof u === "string" && !!u.trim()) : [];
+
+  // Current feeds in order: working ones at their final URL, failing ones as they are
+  const kept: string[] = [];
+  let anyWorking = false;
+  if (!moved) {
+    for (const url of currentFeeds) {
+      const probe = await probeFeed(url);
+      anyWorking ||= probe.ok;
+      const next = probe.ok ? probe.finalUrl : url;
+      if (!kept.includes(next)) kept.push(next);
+    }
+  }
+
+  const detected = await detectPlatform(newBlogUrl);
+  let newFeeds = kept;
+  if (!anyWorking) {
+    const resolved = await resolveFeedUrl(newBlogUrl, detected.platform);
+    newFeeds = resolved ? [resolved] : currentFeeds;
+  }
+
+  const changes: FieldChange[] = [];
+  const feedsChanged = JSON.stringify(newFeeds) !== JSON.stringify(currentFeeds);
+  if (newBlogUrl !== blogUrl) changes.push({ field: "blogUrl", from: creator.blogUrl, to: newBlogUrl });
+  if (feedsChanged) changes.push({ field: "feedUrls", from: creator.feedUrls, to: newFeeds });
+  if (newBlogUrl !== blogUrl || feedsChanged) {
+    const newStrategy = await resolveSupplementStrategy(newBlogUrl, newFeeds[0] ?? "", detected.platform);
+    if (creator.supplementStrategy !== newStrategy) {
+      changes.push({ field: "supplementStrategy", from: creator.supplementStrategy, to: newStrategy });
+    }
+  }
+  // platform is only kept in sync when the repo already records it (older repos predate the field)
+  if ("platform" in creator && creator.platform !== detected.platform) {
+    changes.push({ field: "platform", from: creator.platform, to: detected.platform });
+  }
+  return { changes };
+}
+
+/** Refresh one creator repo; with apply, rewrite creator.json keeping key order and untouched fields. */
+export async function refreshCreatorRepo(dir: string, options: { apply?: boolean } = {}): Promise<RefreshResult> {
+  const path = join(dir, "creator.json");
+  let creator: Record<string, unknown>;
+  try {
+    creator = JSON.parse(await readFile(path, "utf-8")) as Record<string, unknown>;
+  } catch (err) {
+    return { dir, slug: dir, changes: [], applied: false, error: `cannot read ${path}: ${err instanceof Error ? err.message : err}` };
+  }
+  const slug = typeof creator.slug === "string" && creator.slug ? creator.slug : dir;
+  const { changes, error } = await proposeRefresh(creator);
+  if (error || changes.length === 0 || !options.apply) return { dir, slug, changes, applied: false, error };
+  for (const c of changes) creator[c.field] = c.to;
+  await writeFile(path, JSON.stringify(creator, null, 2) + "\n", "utf-8");
+  return { dir, slug, changes, applied: true };
+}
+
+/** Refresh every subrepos/<slug> creator repo in an index (or only the given slugs). */
+export async function refreshIndex(indexDir: string, options: { apply?: boolean; slugs?: string[] } = {}): Promise<RefreshResult[]> {
+  const subreposDir = join(indexDir, "subrepos");
+  const entries = await readdir(subreposDir, { withFileTypes: true }).catch(() => []);
+  const dirs = entries
+    .filter((e) => e.isDirectory() && !e.name.startsWith("."))
+    .filter((e) => !options.slugs?.length || options.slugs.includes(e.name))
+    .map((e) => e.name)
+    .sort();
+  const results: RefreshResult[] = [];
+  for (const name of dirs) results.push(await refreshCreatorRepo(join(subreposDir, name), options));
+  return results;
+}
+
+/** Human-readable summary: one block per creator with field changes as "old → new". */
+export function formatRefreshResults(results: RefreshResult[]): string {
+  const lines: string[] = [];
+  for (const r of results) {
+    if (r.error) {
+      lines.push(`${r.slug}: skipped (${r.error})`);
+    } else if (r.changes.length === 0) {
+      lines.push(`${r.slug}: up to date`);
+    } else {
+      lines.push(`${r.slug}: ${r.applied ? "updated" : "would update"}`);
+      for (const c of r.changes) lines.push(`  ${c.field}: ${JSON.stringify(c.from)} → ${JSON.stringify(c.to)}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -1,100 +1,217 @@
 /**
- * Scaffold a creator repo: copy templates, substitute placeholders, ensure posts/ and metadata/ exist.
+ * Scaffold a creator repo: copy templates, render them (template.ts), ensure posts/ and metadata/ exist.
+ * In an existing repo only missing files are added and creator.json is merged field by field (unless force).
  */
 
 import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 import type { Blogger } from "./parser";
-import { getFeedUrl, isSubstackUrl } from "./feeds";
-import { resolveFeedUrl } from "./feed-discovery";
+import { detectPlatformFromUrl, getFeedUrl, isSubstackUrl, type Platform } from "./feeds";
+import { detectPlatform, resolveFeedUrl, resolveSupplementStrategy } from "./feed-discovery";
+import { collectTemplateFiles, isTemplatedFile, renderTemplate, type TemplateContext } from "./template";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const TEMPLATES_DIR = join(__dirname, "..", "templates", "creator");
 
-export async function substituteCreatorVarsAsync(content: string, blogger: Blogger): Promise<string> {
-  const blogName = blogger.blogName ?? blogger.displayName;
+/** Feed, platform and supplement values that end up in creator.json. */
+export interface ResolvedFeed {
+  feedUrls: string[];
+  platform: Platform;
+  supplementStrategy: string;
+}
+
+/**
+ * Template variables for a creator repo. Without resolved, feed and platform come from URL patterns only (no network):
+ * custom domains stay "custom".
+ */
+export function creatorTemplateContext(blogger: Blogger, resolved?: ResolvedFeed): TemplateContext {
+  const blogUrl = blogger.blogUrl ?? "";
+  let feed = resolved;
+  if (!feed) {
+    const known = blogUrl ? detectPlatformFromUrl(blogUrl) : null;
+    feed = {
+      feedUrls: blogUrl ? [getFeedUrl(blogUrl)] : [],
+      platform: known?.platform ?? "custom",
+      supplementStrategy: known?.supplementStrategy ?? "none",
+    };
+  }
+  return {
+    displayName: blogger.displayName,
+    blogName: blogger.blogName ?? blogger.displayName,
+    blogUrl,
+    followUrl: blogger.followUrl ?? "",
+    imageUrl: blogger.imageUrl ?? "",
+    feedUrls: feed.feedUrls,
+    feedUrlsJson: JSON.stringify(feed.feedUrls),
+    slug: blogger.slug,
+    hexId: blogger.hexId,
+    supplementStrategy: feed.supplementStrategy,
+    platform: feed.platform,
+  };
+}
+
+/** Template variables with the platform detected and the feed discovered over the network (--discover-feed). */
+export async function discoverCreatorTemplateContext(blogger: Blogger): Promise<TemplateContext> {
   const blogUrl = blogger.blogUrl ?? "";
-  const followUrl = blogger.followUrl ?? "";
-  const imageUrl = blogger.imageUrl ?? "";
   let feedUrls: string[] = [];
+  let platform: Platform = "custom";
   if (blogUrl) {
+    const detected = await detectPlatform(blogUrl);
+    platform = detected.platform;
     if (isSubstackUrl(blogUrl)) {
       feedUrls = [getFeedUrl(blogUrl)];
     } else {
-      const discovered = await resolveFeedUrl(blogUrl);
-      feedUrls = discovered ? [discovered] : [getFeedUrl(blogUrl)];
+      const discovered = await resolveFeedUrl(blogUrl, detected.platform);
+      feedUrls = discovered ? [discovered] : detected.feedUrls.slice(0, 1);
     }
   }
-  const feedUrlsJson = JSON.stringify(feedUrls);
-  const supplementStrategy = isSubstackUrl(blogUrl) ? "substack_archive" : "none";
-  return content
-    .replace(/\{\{displayName\}\}/g, blogger.displayName)
-    .replace(/\{\{blogName\}\}/g, blogName)
-    .replace(/\{\{blogUrl\}\}/g, blogUrl)
-    .replace(/\{\{followUrl\}\}/g, followUrl)
-    .replace(/\{\{imageUrl\}\}/g, imageUrl)
-    .replace(/\{\{feedUrlsJson\}\}/g, feedUrlsJson)
-    .replace(/\{\{slug\}\}/g, blogger.slug)
-    .replace(/\{\{hexId\}\}/g, blogger.hexId)
-    .replace(/\{\{supplementStrategy\}\}/g, supplementStrategy);
+  // Custom domains get "sitemap" when the feed is truncated (sitemap lists more posts than the feed)
+  const supplementStrategy = blogUrl
+    ? await resolveSupplementStrategy(blogUrl, feedUrls[0] ?? "", platform)
+    : "none";
+  return creatorTemplateContext(blogger, { feedUrls, platform, supplementStrategy });
 }
 
-export function substituteCreatorVars(content: string, blogger: Blogger): string {
-  const blogName = blogger.blogName ?? blogger.displayName;
-  const blogUrl = blogger.blogUrl ?? "";
-  const followUrl = blogger.followUrl ?? "";
-  const imageUrl = blogger.imageUrl ?? "";
-  const feedUrls = blogUrl ? [getFeedUrl(blogUrl)] : [];
-  const feedUrlsJson = JSON.stringify(feedUrls);
-  const supplementStrategy = isSubstackUrl(blogUrl) ? "substack_archive" : "none";
+/** What scaffolding did with one template file (path relative to the repo). */
+export interface ScaffoldFileResult {
+  path: string;
+  action: "created" | "skipped" | "merged" | "overwritten";
+  /** Template fields added to an existing JSON file */
+  addedFields?: string[];
+}
+
+/** User-owned files that get a field-level merge instead of being skipped (posts/ and metadata/ are never touched). */
+const MERGED_FILES = new Set(["creator.json"]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
 
-  return content
-    .replace(/\{\{displayName\}\}/g, blogger.displayName)
-    .replace(/\{\{blogName\}\}/g, blogName)
-    .replace(/\{\{blogUrl\}\}/g, blogUrl)
-    .replace(/\{\{followUrl\}\}/g, followUrl)
-    .replace(/\{\{imageUrl\}\}/g, imageUrl)
-    .replace(/\{\{feedUrlsJson\}\}/g, feedUrlsJson)
-    .replace(/\{\{slug\}\}/g, blogger.slug)
-    .replace(/\{\{hexId\}\}/g, blogger.hexId)
-    .replace(/\{\{supplementStrategy\}\}/g, supplementStrategy);
+/** Add fields from template missing in existing (recursing into objects); existing values always win. */
+function mergeFields(existing: Record<string, unknown>, template: Record<string, unknown>, prefix = ""): string[] {
+  const added: string[] = [];
+  for (const [key, value] of Object.entries(template)) {
+    if (!(key in existing)) {
+      existing[key] = value;
+      added.push(`${prefix}${key}`);
+    } else if (isPlainObject(existing[key]) && isPlainObject(value)) {
+      added.push(...mergeFields(existing[key] as Record<string, unknown>, value, `${prefix}${key}.`));
+    }
+  }
+  return added;
 }
 
-async function copyDirRecursive(
-  src: string,
+async function copyTemplateFiles(
+  files: Map<string, string>,
   dest: string,
-  blogger: Blogger,
-  substitute: (s: string) => Promise<string> | string
+  context: TemplateContext,
+  force: boolean,
+  results: ScaffoldFileResult[]
 ): Promise<void> {
   await mkdir(dest, { recursive: true });
-  const entries = await readdir(src, { withFileTypes: true });
-  for (const e of entries) {
-    const srcPath = join(src, e.name);
-    const destPath = join(dest, e.name);
-    if (e.isDirectory()) {
-      await copyDirRecursive(srcPath, destPath, blogger, substitute);
-    } else {
-      let content = await readFile(srcPath, "utf-8");
-      if (e.name.endsWith(".md") || e.name.endsWith(".json") || e.name.endsWith(".yml")) {
-        content = await (typeof substitute(content) === "string" ? Promise.resolve(substitute(content)) : substitute(content));
+  for (const [relPath, srcPath] of files) {
+    const destPath = join(dest, relPath);
+    const exists = existsSync(destPath);
+    if (exists && !force && !MERGED_FILES.has(relPath)) {
+      results.push({ path: relPath, action: "skipped" });
+      continue;
+    }
+    let content = await readFile(srcPath, "utf-8");
+    if (isTemplatedFile(relPath)) {
+      content = renderTemplate(content, context, { name: relPath });
+    }
+    if (exists && !force) {
+      let existing: unknown;
+      let template: unknown;
+      try {
+        existing = JSON.parse(await readFile(destPath, "utf-8"));
+        template = JSON.parse(content);
+      } catch {
+        // Unreadable JSON is left for the user to fix rather than replaced
+        results.push({ path: relPath, action: "skipped" });
+        continue;
+      }
+      if (!isPlainObject(existing) || !isPlainObject(template)) {
+        results.push({ path: relPath, action: "skipped" });
+        continue;
+      }
+      const addedFields = mergeFields(existing, template);
+      if (addedFields.length === 0) {
+        results.push({ path: relPath, action: "skipped" });
+        continue;
       }
-      await mkdir(dirname(destPath), { recursive: true });
-      await writeFile(destPath, content, "utf-8");
+      await writeFile(destPath, JSON.stringify(existing, null, 2) + "\n", "utf-8");
+      results.push({ path: relPath, action: "merged", addedFields });
+      continue;
     }
+    await mkdir(dirname(destPath), { recursive: true });
+    await writeFile(destPath, content, "utf-8");
+    results.push({ path: relPath, action: exists ? "overwritten" : "created" });
   }
 }
 
 /**
  * Scaffold a creator repo at outputDir (e.g. ./creators/holly-elmore).
  * Uses blogger data for placeholders. For custom domains, optionally discovers feed URL via HTML; for Substack uses /feed and supplementStrategy substack_archive.
+ * Existing files are kept: missing template files are created, creator.json gets new template fields added (existing
+ * values kept) and everything else is skipped. With force, template files overwrite existing ones. posts/ and
+ * metadata/ content is never touched. templateDir is a --template-dir overlay: its creator/ files replace or add to the
+ * built-in templates. Returns what happened to each template file.
  */
-export async function scaffoldCreatorRepo(blogger: Blogger, outputDir: string, options?: { discoverFeed?: boolean }): Promise<void> {
+export async function scaffoldCreatorRepo(
+  blogger: Blogger,
+  outputDir: string,
+  options?: { discoverFeed?: boolean; force?: boolean; templateDir?: string | null }
+): Promise<ScaffoldFileResult[]> {
   await mkdir(outputDir, { recursive: true });
-  const substitute = options?.discoverFeed
-    ? (c: string) => substituteCreatorVarsAsync(c, blogger)
-    : (c: string) => substituteCreatorVars(c, blogger);
-  await copyDirRecursive(TEMPLATES_DIR, outputDir, blogger, substitute);
+  const context = options?.discoverFeed
+    ? await discoverCreatorTemplateContext(blogger)
+    : creatorTemplateContext(blogger);
+  const overlayDir = options?.templateDir ? join(options.templateDir, "creator") : null;
+  const files = await collectTemplateFiles(TEMPLATES_DIR, overlayDir);
+  const results: ScaffoldFileResult[] = [];
+  await copyTemplateFiles(files, outputDir, context, !!options?.force, results);
   await mkdir(join(outputDir, "posts"), { recursive: true });
   await mkdir(join(outputDir, "metadata"), { recursive: true });
+  if (results.every((r) => r.action === "created" || r.action === "overwritten")) {
+    // Every template file is pristine: record their hashes so update can tell later local edits apart
+    const { writeTemplateLock } = await import("./update-from-template");
+    const overlay = [...files].filter(([rel, src]) => overlayDir && src === join(overlayDir, rel)).map(([rel]) => rel);
+    await writeTemplateLock(outputDir, "creator", { overlay });
+  }
+  return results;
+}
+
+/** "Created <dir>" for a new repo; for an existing one, the files created, merged or overwritten and a skipped count. */
+export function formatScaffoldResults(outputDir: string, results: ScaffoldFileResult[]): string {
+  if (results.every((r) => r.action === "created")) return `Created ${outputDir}`;
+  const lines = [`Updated ${outputDir}`];
+  for (const r of results) {
+    if (r.action === "merged") lines.push(`  merged ${r.path} (added ${r.addedFields!.join(", ")})`);
+    else if (r.action !== "skipped") lines.push(`  ${r.action} ${r.path}`);
+  }
+  const skipped = results.filter((r) => r.action === "skipped").length;
+  if (skipped > 0) lines.push(`  skipped ${skipped} existing file(s)`);
+  return lines.join("\n");
+}
+
+/**
+ * Slugs of creator repos already under dir, mapped to the hexId in their creator.json (for slug collision checks).
+ * Directories without a readable creator.json are mapped to "" so nothing is scaffolded over them.
+ */
+export async function readExistingSlugOwners(dir: string): Promise<Map<string, string>> {
+  const owners = new Map<string, string>();
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  for (const e of entries) {
+    if (!e.isDirectory() || e.name.startsWith(".")) continue;
+    try {
+      const creator = JSON.parse(await readFile(join(dir, e.name, "creator.json"), "utf-8"));
+      owners.set(e.name, typeof creator.hexId === "string" ? creator.hexId : "");
+    } catch {
+      owners.set(e.name, "");
+    }
+  }
+  return owners;
 }
@@ -1,44 +1,44 @@
 /**
  * Scaffold the index repo: copy templates/index to outputDir.
  * addCreatorToIndex: append repo to creators/repos.json and optionally add as git submodule.
+ * removeCreatorFromIndex: the reverse (repos.json entry, submodule or directory, mirror feeds).
+ * renameCreatorInIndex: change a creator's slug everywhere in the index, keeping the old one as an alias.
+ * registerSubmodule: adopt a scaffolded creator repo under subrepos/ as a git submodule.
  */
 
-import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
-import { join, dirname } from "node:path";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
-import { spawn } from "node:child_process";
+import { spawn, spawnSync } from "node:child_process";
+import { collectTemplateFiles } from "./template";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const TEMPLATES_DIR = join(__dirname, "..", "templates", "index");
 
-async function copyDirRecursive(src: string, dest: string): Promise<void> {
-  await mkdir(dest, { recursive: true });
-  const entries = await readdir(src, { withFileTypes: true });
-  for (const e of entries) {
-    const srcPath = join(src, e.name);
-    const destPath = join(dest, e.name);
-    if (e.isDirectory()) {
-      await copyDirRecursive(srcPath, destPath);
-    } else {
-      const content = await readFile(srcPath, "utf-8");
-      await mkdir(dirname(destPath), { recursive: true });
-      await writeFile(destPath, content, "utf-8");
-    }
-  }
-}
-
 /**
- * Scaffold the index repo at outputDir (e.g. ./index-repo).
+ * Scaffold the index repo at outputDir (e.g. ./index-repo). templateDir is a --template-dir overlay: its index/ files
+ * replace or add to the built-in templates. Index templates are copied as they are (no variables).
  */
-export async function scaffoldIndexRepo(outputDir: string): Promise<void> {
+export async function scaffoldIndexRepo(outputDir: string, options?: { templateDir?: string | null }): Promise<void> {
   await mkdir(outputDir, { recursive: true });
-  await copyDirRecursive(TEMPLATES_DIR, outputDir);
+  const overlayDir = options?.templateDir ? join(options.templateDir, "index") : null;
+  const files = await collectTemplateFiles(TEMPLATES_DIR, overlayDir);
+  for (const [rel, src] of files) {
+    const dest = join(outputDir, rel);
+    await mkdir(dirname(dest), { recursive: true });
+    await writeFile(dest, await readFile(src, "utf-8"), "utf-8");
+  }
+  const { writeTemplateLock } = await import("./update-from-template");
+  const overlay = [...files].filter(([rel, src]) => overlayDir && src === join(overlayDir, rel)).map(([rel]) => rel);
+  await writeTemplateLock(outputDir, "index", { overlay });
 }
 
-type ReposEntry = string | { url: string; slug?: string };
+type ReposEntry = string | { url: string; slug?: string; aliases?: string[] };
 
 /**
  * Add a creator repo to the index: append to creators/repos.json; optionally run git submodule add.
+ * Throws if the slug is already registered for a different repo URL.
  */
 export async function addCreatorToIndex(
   indexDir: string,
@@ -55,6 +55,10 @@ export async function addCreatorToIndex(
   } catch {
     repos = [];
   }
+  const clash = repos.find((r) => repoEntrySlug(r) === slug && (typeof r === "string" ? r : r.url) !== repoUrl);
+  if (clash) {
+    throw new Error(`slug "${slug}" is already used in the index by ${typeof clash === "string" ? clash : clash.url}; pass a different --slug`);
+  }
   const existing = repos.some(
     (r) => (typeof r === "string" ? r : r.url) === repoUrl
   );
@@ -78,3 +82,227 @@ export async function addCreatorToIndex(
     });
   }
 }
+
+async function readReposJson(indexDir: string): Promise<ReposEntry[]> {
+  try {
+    const raw = JSON.parse(await readFile(join(indexDir, "creators", "repos.json"), "utf-8"));
+    return Array.isArray(raw) ? raw : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Slug of a repos.json entry: its slug, else the repo name from the URL. */
+export function repoEntrySlug(entry: ReposEntry): string {
+  const url = typeof entry === "string" ? entry : entry.url;
+  return (typeof entry === "string" ? undefined : entry.slug) || url.replace(/\/$/, "").split("/").pop()?.replace(/\.git$/, "") || url;
+}
+
+/** Submodule name whose path is `path` in .gitmodules, or null. */
+async function findSubmoduleName(indexDir: string, path: string): Promise<string | null> {
+  let text: string;
+  try {
+    text = await readFile(join(indexDir, ".gitmodules"), "utf-8");
+  } catch {
+    return null;
+  }
+  let current: string | null = null;
+  for (const line of text.split("\n")) {
+    const section = line.match(/^\s*\[submodule\s+"([^"]+)"\]/);
+    if (section) {
+      current = section[1]!;
+      continue;
+    }
+    const p = line.match(/^\s*path\s*=\s*(.+?)\s*$/);
+    if (p && current && p[1] === path) return current;
+  }
+  return null;
+}
+
+function git(indexDir: string, args: string[]): { ok: boolean; output: string } {
+  const res = spawnSync("git", args, { cwd: indexDir, encoding: "utf-8" });
+  return { ok: res.status === 0, output: `${res.stdout ?? ""}${res.stderr ?? ""}`.trim() };
+}
+
+/**
+ * Register the git repo already at subrepos/<slug> as a submodule with url (bootstrap-index --git): `git submodule add`
+ * adopts the existing checkout without cloning, then its .git directory is absorbed into the index's .git/modules.
+ * Does nothing if the path is already a submodule. Returns a description of each step.
+ */
+export async function registerSubmodule(indexDir: string, slug: string, url: string): Promise<string[]> {
+  const path = `subrepos/${slug}`;
+  if (await findSubmoduleName(indexDir, path)) return [];
+  const add = git(indexDir, ["submodule", "add", "-q", url, path]);
+  if (!add.ok) throw new Error(`git submodule add failed for ${path}: ${add.output}`);
+  const absorb = git(indexDir, ["submodule", "absorbgitdirs", "--", path]);
+  if (!absorb.ok) throw new Error(`git submodule absorbgitdirs failed for ${path}: ${absorb.output}`);
+  return [`submodule ${path} → ${url}`];
+}
+
+const SLUG_RE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** Lowercase letters, digits and single hyphens: safe as a subrepos/ directory name. */
+export function isValidSlug(slug: string): boolean {
+  return SLUG_RE.test(slug);
+}
+
+/** subrepos/<slug> relative to the index; throws unless slug is valid and the path is a direct child of subrepos/. */
+function subrepoPathFor(indexDir: string, slug: string): string {
+  if (!isValidSlug(slug)) throw new Error(`"${slug}" is not a valid slug (lowercase letters, digits and single hyphens)`);
+  const subreposDir = resolve(indexDir, "subrepos");
+  const full = resolve(subreposDir, slug);
+  if (dirname(full) !== subreposDir || basename(full) !== slug) {
+    throw new Error(`"${slug}" does not name a directory directly under subrepos/`);
+  }
+  return `subrepos/${slug}`;
+}
+
+/**
+ * Remove a creator from the index: drop its creators/repos.json entry, deinit and `git rm` the submodule at
+ * subrepos/<slug> (cleaning .gitmodules and .git/modules) or delete the plain directory, and delete its mirror feeds.
+ * Returns a description of each step; with dryRun nothing is changed.
+ */
+export async function removeCreatorFromIndex(
+  indexDir: string,
+  slug: string,
+  options: { dryRun?: boolean } = {}
+): Promise<string[]> {
+  const dryRun = !!options.dryRun;
+  const actions: string[] = [];
+  const subrepoPath = subrepoPathFor(indexDir, slug);
+
+  const reposPath = join(indexDir, "creators", "repos.json");
+  const repos = await readReposJson(indexDir);
+  const kept = repos.filter((r) => repoEntrySlug(r) !== slug);
+  if (kept.length !== repos.length) {
+    actions.push(`remove ${repos.length - kept.length} entr${repos.length - kept.length === 1 ? "y" : "ies"} from creators/repos.json`);
+    if (!dryRun) await writeFile(reposPath, JSON.stringify(kept, null, 2), "utf-8");
+  }
+
+  const submoduleName = await findSubmoduleName(indexDir, subrepoPath);
+  if (submoduleName) {
+    actions.push(`git submodule deinit and git rm ${subrepoPath}`);
+    if (!dryRun) {
+      git(indexDir, ["submodule", "deinit", "-f", "--", subrepoPath]);
+      const removed = git(indexDir, ["rm", "-f", "--", subrepoPath]);
+      if (!removed.ok) {
+        // Not tracked (e.g. .gitmodules edited by hand): clean .gitmodules and the directory ourselves
+        git(indexDir, ["config", "-f", ".gitmodules", "--remove-section", `submodule.${submoduleName}`]);
+        await rm(join(indexDir, subrepoPath), { recursive: true, force: true });
+      }
+      await rm(join(indexDir, ".git", "modules", submoduleName), { recursive: true, force: true });
+      git(indexDir, ["config", "--remove-section", `submodule.${submoduleName}`]);
+    }
+  } else if (existsSync(join(indexDir, subrepoPath))) {
+    actions.push(`delete ${subrepoPath}/`);
+    if (!dryRun) await rm(join(indexDir, subrepoPath), { recursive: true, force: true });
+  }
+
+  for (const ext of ["xml", "atom", "json"]) {
+    const feedPath = join("feeds", "creators", `${slug}.${ext}`);
+    if (existsSync(join(indexDir, feedPath))) {
+      actions.push(`delete ${feedPath}`);
+      if (!dryRun) await rm(join(indexDir, feedPath), { force: true });
+    }
+  }
+  return actions;
+}
+
+/**
+ * Rename a creator from one slug to another: the creators/repos.json entry (slug, plus the old slug in `aliases`),
+ * subrepos/<from> (`git mv` for a submodule, so .gitmodules follows), its creator.json (slug and aliases) and the
+ * mirror feeds in feeds/creators/. Throws if either slug is invalid or `to` is already taken.
+ * Returns a description of each step; with dryRun nothing is changed.
+ */
+export async function renameCreatorInIndex(
+  indexDir: string,
+  from: string,
+  to: string,
+  options: { dryRun?: boolean } = {}
+): Promise<string[]> {
+  const dryRun = !!options.dryRun;
+  const fromPath = subrepoPathFor(indexDir, from);
+  const toPath = subrepoPathFor(indexDir, to);
+  if (from === to) throw new Error("--from and --to are the same slug");
+
+  const reposPath = join(indexDir, "creators", "repos.json");
+  const repos = await readReposJson(indexDir);
+  if (repos.some((r) => repoEntrySlug(r) === to) || existsSync(join(indexDir, toPath))) {
+    throw new Error(`slug "${to}" is already used in the index`);
+  }
+  const index = repos.findIndex((r) => repoEntrySlug(r) === from);
+  const hasSubrepo = existsSync(join(indexDir, fromPath));
+  if (index < 0 && !hasSubrepo) throw new Error(`"${from}" is not in the index (no repos.json entry or ${fromPath})`);
+
+  const actions: string[] = [];
+  const withAlias = (aliases: unknown) =>
+    [...new Set([...(Array.isArray(aliases) ? (aliases as string[]) : []), from])].filter((a) => a !== to);
+
+  if (index >= 0) {
+    const entry = repos[index]!;
+    const url = typeof entry === "string" ? entry : entry.url;
+    repos[index] = { url, slug: to, aliases: withAlias(typeof entry === "string" ? undefined : entry.aliases) };
+    actions.push(`creators/repos.json: slug ${from} → ${to} (alias ${from})`);
+    if (!dryRun) await writeFile(reposPath, JSON.stringify(repos, null, 2), "utf-8");
+  }
+
+  const submoduleName = hasSubrepo ? await findSubmoduleName(indexDir, fromPath) : null;
+  if (hasSubrepo) {
+    actions.push(submoduleName ? `git mv ${fromPath} ${toPath}` : `move ${fromPath}/ → ${toPath}/`);
+    if (!dryRun) {
+      if (submoduleName) {
+        const moved = git(indexDir, ["mv", fromPath, toPath]);
+        if (!moved.ok) throw new Error(`git mv ${fromPath} ${toPath} failed: ${moved.output}`);
+      } else {
+        await rename(join(indexDir, fromPath), join(indexDir, toPath));
+      }
+    }
+
+    const creatorPath = join(indexDir, dryRun ? fromPath : toPath, "creator.json");
+    if (existsSync(creatorPath)) {
+      actions.push(`${toPath}/creator.json: slug ${from} → ${to} (alias ${from})`);
+      if (!dryRun) {
+        const creator = JSON.parse(await readFile(creatorPath, "utf-8")) as Record<string, unknown>;
+        creator.slug = to;
+        creator.aliases = withAlias(creator.aliases);
+        await writeFile(creatorPath, JSON.stringify(creator, null, 2) + "\n", "utf-8");
+      }
+      if (submoduleName) actions.push(`commit and push creator.json in ${toPath} (the creator repo), then commit the index`);
+    }
+  }
+
+  for (const ext of ["xml", "atom", "json"]) {
+    const feedFrom = join("feeds", "creators", `${from}.${ext}`);
+    if (existsSync(join(indexDir, feedFrom))) {
+      actions.push(`move ${feedFrom} → feeds/creators/${to}.${ext}`);
+      if (!dryRun) await rename(join(indexDir, feedFrom), join(indexDir, "feeds", "creators", `${to}.${ext}`));
+    }
+  }
+  return actions;
+}
+
+/**
+ * Map slugs given on the command line to current slugs: a slug the index renamed away from (an alias in
+ * creators/repos.json or a subrepo's creator.json) resolves to the creator's current slug. Unknown slugs pass through.
+ */
+export async function resolveIndexSlugs(indexDir: string, slugs: string[]): Promise<string[]> {
+  const aliasOf = new Map<string, string>();
+  const current = new Set<string>();
+  for (const entry of await readReposJson(indexDir)) {
+    current.add(repoEntrySlug(entry));
+    if (typeof entry === "string" || !Array.isArray(entry.aliases)) continue;
+    for (const alias of entry.aliases) aliasOf.set(alias, repoEntrySlug(entry));
+  }
+  const dirs = await readdir(join(indexDir, "subrepos"), { withFileTypes: true }).catch(() => []);
+  for (const d of dirs) {
+    if (!d.isDirectory()) continue;
+    current.add(d.name);
+    try {
+      const creator = JSON.parse(await readFile(join(indexDir, "subrepos", d.name, "creator.json"), "utf-8"));
+      if (Array.isArray(creator.aliases)) for (const alias of creator.aliases) if (!aliasOf.has(alias)) aliasOf.set(alias, d.name);
+    } catch {
+      // not a creator repo
+    }
+  }
+  return slugs.map((s) => (current.has(s) ? s : aliasOf.get(s) ?? s));
+}
@@ -0,0 +1,396 @@
+/**
+ * Full-text search over an index repo's archived posts (subrepos/<slug>/posts/*.md + metadata/*.json).
+ * A persisted inverted index (<index>/.search-index.json: term → [docId, termFrequency, …]) is brought up to date
+ * before each query by comparing file mtimes/sizes, so only new, edited or deleted posts are re-read.
+ * Ranking is BM25; "quoted phrases" must appear verbatim (checked against the post text of candidate documents),
+ * and results can be filtered by creator slug and published date range.
+ */
+
+import { readdir, readFile, stat, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+const INDEX_FILE = ".search-index.json";
+const INDEX_VERSION = 1;
+
+/** BM25 parameters */
+const K1 = 1.2;
+const B = 0.75;
+
+/** Words of context on each side of the best-matching passage. */
+const SNIPPET_WORDS = 30;
+
+interface SearchDoc {
+  /** Subrepo directory (creator slug) */
+  slug: string;
+  /** Post file name without .md */
+  baseName: string;
+  title: string;
+  link: string | null;
+  published: string | null;
+  /** Token count (for BM25 length normalisation) */
+  length: number;
+  /** Change detection: newest mtime of the .md / .json pair and .md size */
+  mtimeMs: number;
+  size: number;
+}
+
+interface SearchIndexFile {
+  version: number;
+  nextId: number;
+  docs: Record<string, SearchDoc>;
+  /** term → flat [docId, tf, docId, tf, …]; prototype-less, so terms like "constructor" are plain keys */
+  postings: Record<string, number[]>;
+}
+
+export interface SearchOptions {
+  /** Only these creator slugs */
+  slugs?: string[];
+  /** Published on or after / on or before (YYYY-MM-DD or ISO) */
+  since?: string;
+  until?: string;
+  /** Max hits (default 10) */
+  limit?: number;
+  /** Rebuild the index from scratch */
+  rebuild?: boolean;
+}
+
+export interface SearchHit {
+  slug: string;
+  title: string;
+  link: string | null;
+  published: string | null;
+  /** Path of the post relative to the index repo */
+  path: string;
+  score: number;
+  snippet: string;
+  /** [start, end) offsets of matched words in snippet */
+  highlights: [number, number][];
+}
+
+export interface SearchResult {
+  hits: SearchHit[];
+  /** Matching documents before limit */
+  total: number;
+  /** Index maintenance done before the query */
+  indexed: { added: number; updated: number; removed: number; documents: number };
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/** Lowercase, accent-folded word tokens with their offsets in text. */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const re = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    const term = m[0]
+      .normalize("NFKD")
+      .replace(/\p{M}+/gu, "")
+      .replace(/['’]/g, "")
+      .toLowerCase();
+    if (term) tokens.push({ term, start: m.index, end: m.index + m[0].length });
+  }
+  return tokens;
+}
+
+/** Post Markdown as searchable plain text: header, link targets and Markdown markup removed. */
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/^# .*\n+(?:- \*\*(?:Published|Link):\*\*.*\n)*/, "")
+    .replace(/^(```|~~~).*$/gm, "")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[\^[^\]]+\]:?/g, "")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+[.)])\s+/gm, "")
+    .replace(/\*\*|__|~~|`/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Split a query into bare terms and "quoted phrases" (each phrase as its term list). */
+export function parseQuery(query: string): { terms: string[]; phrases: string[][] } {
+  const phrases: string[][] = [];
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const terms = tokenize(phrase).map((t) => t.term);
+    if (terms.length > 0) phrases.push(terms);
+    return " ";
+  });
+  const terms = tokenize(rest).map((t) => t.term);
+  return { terms, phrases };
+}
+
+function hasPhrase(tokens: Token[], phrase: string[]): boolean {
+  outer: for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    for (let j = 0; j < phrase.length; j++) {
+      if (tokens[i + j]!.term !== phrase[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+function emptyIndex(): SearchIndexFile {
+  return { version: INDEX_VERSION, nextId: 1, docs: Object.create(null), postings: Object.create(null) };
+}
+
+async function loadIndex(indexDir: string): Promise<SearchIndexFile> {
+  try {
+    const data = JSON.parse(await readFile(join(indexDir, INDEX_FILE), "utf-8")) as SearchIndexFile;
+    if (data.version === INDEX_VERSION && data.docs && data.postings) {
+      return {
+        ...data,
+        docs: Object.assign(Object.create(null), data.docs),
+        postings: Object.assign(Object.create(null), data.postings),
+      };
+    }
+  } catch {
+    // missing or unreadable: rebuild
+  }
+  return emptyIndex();
+}
+
+/** Every post file in the index with its change-detection fingerprint. */
+async function scanPosts(indexDir: string): Promise<Map<string, { slug: string; baseName: string; mtimeMs: number; size: number }>> {
+  const found = new Map<string, { slug: string; baseName: string; mtimeMs: number; size: number }>();
+  const subreposDir = join(indexDir, "subrepos");
+  const entries = await readdir(subreposDir, { withFileTypes: true }).catch(() => []);
+  for (const d of entries) {
+    if (!d.isDirectory() || d.name.startsWith(".")) continue;
+    const postsDir = join(subreposDir, d.name, "posts");
+    const files = (await readdir(postsDir).catch(() => [])).filter((f) => f.endsWith(".md"));
+    for (const f of files) {
+      const baseName = f.replace(/\.md$/, "");
+      const md = await stat(join(postsDir, f));
+      const meta = await stat(join(subreposDir, d.name, "metadata", `${baseName}.json`)).catch(() => null);
+      found.set(`${d.name}/${baseName}`, {
+        slug: d.name,
+        baseName,
+        mtimeMs: Math.max(md.mtimeMs, meta?.mtimeMs ?? 0),
+        size: md.size,
+      });
+    }
+  }
+  return found;
+}
+
+async function readPostText(indexDir: string, slug: string, baseName: string): Promise<string> {
+  return readFile(join(indexDir, "subrepos", slug, "posts", `${baseName}.md`), "utf-8");
+}
+
+/**
+ * Bring the persisted index in line with subrepos/: index new posts, re-index changed ones, drop deleted ones.
+ * Writes the index file only when something changed.
+ */
+export async function updateSearchIndex(
+  indexDir: string,
+  options: { rebuild?: boolean } = {}
+): Promise<{ index: SearchIndexFile; added: number; updated: number; removed: number }> {
+  const index = options.rebuild ? emptyIndex() : await loadIndex(indexDir);
+  const files = await scanPosts(indexDir);
+
+  const idByKey = new Map<string, number>();
+  for (const [id, doc] of Object.entries(index.docs)) idByKey.set(`${doc.slug}/${doc.baseName}`, Number(id));
+
+  const stale = new Set<number>();
+  const toIndex: string[] = [];
+  let added = 0;
+  let updated = 0;
+  for (const [key, file] of files) {
+    const id = idByKey.get(key);
+    if (id == null) {
+      toIndex.push(key);
+      added++;
+    } else {
+      const doc = index.docs[id]!;
+      if (doc.mtimeMs !== file.mtimeMs || doc.size !== file.size) {
+        stale.add(id);
+        toIndex.push(key);
+        updated++;
+      }
+    }
+  }
+  for (const [key, id] of idByKey) {
+    if (!files.has(key)) stale.add(id);
+  }
+  const removed = stale.size - updated;
+
+  if (stale.size > 0) {
+    for (const id of stale) delete index.docs[id];
+    for (const [term, list] of Object.entries(index.postings)) {
+      const kept: number[] = [];
+      for (let i = 0; i < list.length; i += 2) {
+        if (!stale.has(list[i]!)) kept.push(list[i]!, list[i + 1]!);
+      }
+      if (kept.length) index.postings[term] = kept;
+      else delete index.postings[term];
+    }
+  }
+
+  for (const key of toIndex) {
+    const file = files.get(key)!;
+    const markdown = await readPostText(indexDir, file.slug, file.baseName);
+    let meta: { title?: string; link?: string; published?: string | null } = {};
+    try {
+      meta = JSON.parse(await readFile(join(indexDir, "subrepos", file.slug, "metadata", `${file.baseName}.json`), "utf-8"));
+    } catch {
+      // post without metadata
+    }
+    const title = meta.title || markdown.match(/^# (.*)$/m)?.[1]?.trim() || file.baseName;
+    const tokens = tokenize(`${title}\n${plainText(markdown)}`);
+    const id = index.nextId++;
+    index.docs[id] = {
+      slug: file.slug,
+      baseName: file.baseName,
+      title,
+      link: meta.link ?? null,
+      published: meta.published ?? null,
+      length: tokens.length,
+      mtimeMs: file.mtimeMs,
+      size: file.size,
+    };
+    const tf = new Map<string, number>();
+    for (const t of tokens) tf.set(t.term, (tf.get(t.term) ?? 0) + 1);
+    for (const [term, count] of tf) (index.postings[term] ??= []).push(id, count);
+  }
+
+  if (options.rebuild || toIndex.length > 0 || stale.size > 0) {
+    await writeFile(join(indexDir, INDEX_FILE), JSON.stringify(index), "utf-8");
+  }
+  return { index, added, updated, removed };
+}
+
+/** Passage of ~2×SNIPPET_WORDS words around the densest cluster of matched terms, with highlight offsets. */
+function makeSnippet(text: string, matchTerms: Set<string>): { snippet: string; highlights: [number, number][] } {
+  const tokens = tokenize(text);
+  let bestStart = 0;
+  let bestHits = -1;
+  const window = SNIPPET_WORDS * 2;
+  for (let i = 0; i < tokens.length; i++) {
+    if (!matchTerms.has(tokens[i]!.term)) continue;
+    const from = Math.max(0, i - Math.floor(SNIPPET_WORDS / 2));
+    let hits = 0;
+    for (let j = from; j < Math.min(tokens.length, from + window); j++) if (matchTerms.has(tokens[j]!.term)) hits++;
+    if (hits > bestHits) {
+      bestHits = hits;
+      bestStart = from;
+    }
+  }
+  const slice = tokens.slice(bestStart, bestStart + window);
+  if (slice.length === 0) return { snippet: text.slice(0, 200), highlights: [] };
+  const startOffset = slice[0]!.start;
+  const endOffset = slice[slice.length - 1]!.end;
+  const prefix = bestStart > 0 ? "…" : "";
+  const suffix = bestStart + window < tokens.length ? "…" : "";
+  const snippet = prefix + (suffix ? text.slice(startOffset, endOffset) : text.slice(startOffset)) + suffix;
+  const highlights: [number, number][] = slice
+    .filter((t) => matchTerms.has(t.term))
+    .map((t) => [t.start - startOffset + prefix.length, t.end - startOffset + prefix.length]);
+  return { snippet, highlights };
+}
+
+function inDateRange(published: string | null, since?: string, until?: string): boolean {
+  if (!since && !until) return true;
+  if (!published) return false;
+  const day = published.slice(0, 10);
+  if (since && day < since.slice(0, 10)) return false;
+  if (until && day > until.slice(0, 10)) return false;
+  return true;
+}
+
+/** Search the index repo's posts (updating the persisted index first). */
+export async function searchPosts(indexDir: string, query: string, options: SearchOptions = {}): Promise<SearchResult> {
+  const { index, added, updated, removed } = await updateSearchIndex(indexDir, { rebuild: options.rebuild });
+  const docs = index.docs;
+  const docIds = Object.keys(docs);
+  const indexed = { added, updated, removed, documents: docIds.length };
+  const { terms, phrases } = parseQuery(query);
+  const queryTerms = [...new Set([...terms, ...phrases.flat()])];
+  if (queryTerms.length === 0 || docIds.length === 0) return { hits: [], total: 0, indexed };
+
+  const avgLength = docIds.reduce((sum, id) => sum + docs[id]!.length, 0) / docIds.length;
+  const allowed = (id: number) => {
+    const doc = docs[id];
+    if (!doc) return false;
+    if (options.slugs?.length && !options.slugs.includes(doc.slug)) return false;
+    return inDateRange(doc.published, options.since, options.until);
+  };
+
+  // Documents that contain every phrase term are phrase candidates; without phrases every scored doc is a candidate
+  const phraseDocSets = [...new Set(phrases.flat())].map((term) => {
+    const ids = new Set<number>();
+    const list = index.postings[term] ?? [];
+    for (let i = 0; i < list.length; i += 2) ids.add(list[i]!);
+    return ids;
+  });
+  const required = phraseDocSets.length
+    ? new Set([...phraseDocSets[0]!].filter((id) => phraseDocSets.every((ids) => ids.has(id))))
+    : null;
+
+  const scores = new Map<number, number>();
+  for (const term of queryTerms) {
+    const list = index.postings[term];
+    if (!list) continue;
+    const df = list.length / 2;
+    const idf = Math.log(1 + (docIds.length - df + 0.5) / (df + 0.5));
+    for (let i = 0; i < list.length; i += 2) {
+      const id = list[i]!;
+      if (required && !required.has(id)) continue;
+      if (!allowed(id)) continue;
+      const tf = list[i + 1]!;
+      const norm = tf + K1 * (1 - B + (B * docs[id]!.length) / avgLength);
+      scores.set(id, (scores.get(id) ?? 0) + idf * ((tf * (K1 + 1)) / norm));
+    }
+  }
+
+  const ranked = [...scores].sort((a, b) => b[1] - a[1]);
+  const hits: SearchHit[] = [];
+  let total = 0;
+  const limit = options.limit ?? 10;
+  const matchTerms = new Set(queryTerms);
+  for (const [id, score] of ranked) {
+    const doc = docs[id]!;
+    let text: string | null = null;
+    if (phrases.length > 0) {
+      text = plainText(await readPostText(indexDir, doc.slug, doc.baseName));
+      const tokens = tokenize(`${doc.title}\n${text}`);
+      if (!phrases.every((p) => hasPhrase(tokens, p))) continue;
+    }
+    total++;
+    if (hits.length >= limit) continue;
+    text ??= plainText(await readPostText(indexDir, doc.slug, doc.baseName));
+    hits.push({
+      slug: doc.slug,
+      title: doc.title,
+      link: doc.link,
+      published: doc.published,
+      path: `subrepos/${doc.slug}/posts/${doc.baseName}.md`,
+      score: Math.round(score * 1000) / 1000,
+      ...makeSnippet(text, matchTerms),
+    });
+  }
+  return { hits, total, indexed };
+}
+
+/** Terminal output: numbered hits with title, creator, date, link and snippet (matches in bold when color is on). */
+export function formatSearchHits(result: SearchResult, options: { color?: boolean } = {}): string {
+  if (result.hits.length === 0) return "No matches.";
+  const mark = (snippet: string, highlights: [number, number][]) => {
+    let out = "";
+    let last = 0;
+    for (const [start, end] of highlights) {
+      const word = snippet.slice(start, end);
+      out += snippet.slice(last, start) + (options.color ? `\x1b[1;33m${word}\x1b[0m` : `**${word}**`);
+      last = end;
+    }
+    return out + snippet.slice(last);
+  };
+  const blocks = result.hits.map((h, i) => {
+    const date = h.published ? h.published.slice(0, 10) : "undated";
+    return [`${i + 1}. ${h.title}`, `   ${h.slug} · ${date} · ${h.link ?? h.path}`, `   ${mark(h.snippet, h.highlights)}`].join("\n");
+  });
+  return `${blocks.join("\n\n")}\n\n${result.hits.length} of ${result.total} match(es)`;
+}
@@ -0,0 +1,246 @@
+/**
+ * sitemap supplement strategy: finds the blog's sitemap (robots.txt "Sitemap:" lines, /sitemap.xml, sitemap indexes),
+ * keeps post-like URLs, fetches each page and extracts title, dates and body from OpenGraph / JSON-LD / <article>.
+ * Used to backfill custom-domain blogs whose feed only carries recent posts.
+ */
+
+import type { FeedItem } from "./native-feed";
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: string;
+}
+
+export interface SitemapArchiveOptions {
+  /** Normalized links already archived; these pages are not fetched. */
+  knownUrls?: Set<string>;
+  /**
+   * Normalized sitemap URLs fetched by earlier runs, whether or not they yielded a post (not a post, or archived under
+   * a different og:url); these pages are not fetched again. Every page fetched in this run is added.
+   */
+  seenUrls?: Set<string>;
+  /** Normalizer applied to page URLs before checking knownUrls and seenUrls. */
+  normalizeUrl?: (url: string) => string;
+  /** Cap on pages fetched per run (default 500); the rest are picked up on the next sync. */
+  maxPosts?: number;
+  /** Delay between page fetches in ms (default 500). */
+  delayMs?: number;
+}
+
+const USER_AGENT = "orange-tpot-sync (+https://github.com/metaspn/orange-tpot-tooling)";
+
+/** Sitemap paths tried when robots.txt lists none. */
+const SITEMAP_PATHS = ["sitemap.xml", "sitemap_index.xml", "wp-sitemap.xml", "sitemap-posts.xml"];
+
+/** Child sitemaps in an index that never list posts (WordPress, Ghost, Yoast naming). */
+const NON_POST_SITEMAP_RE = /(tag|categor|author|user|page-sitemap|sitemap-pages|taxonom|product|attachment|image|video)/i;
+
+/** Paths that are listing/utility pages rather than posts. */
+const NON_POST_PATH_RE =
+  /^\/(tag|tags|category|categories|author|authors|page|search|feed|rss|archive|archives|about|contact|subscribe|privacy|terms|login|signin|account|wp-content|wp-json|cdn-cgi)(\/|$)/i;
+
+const FILE_EXT_RE = /\.(xml|json|txt|jpe?g|png|gif|webp|svg|pdf|zip|mp3|mp4|css|js)$/i;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function fetchText(url: string): Promise<{ text: string; url: string } | null> {
+  try {
+    const res = await fetch(url, { redirect: "follow", headers: { "User-Agent": USER_AGENT } });
+    if (!res.ok) return null;
+    return { text: await res.text(), url: res.url || url };
+  } catch {
+    return null;
+  }
+}
+
+function decodeXmlText(s: string): string {
+  return s
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .trim();
+}
+
+function tagText(block: string, tag: string): string | undefined {
+  const m = block.match(new RegExp(`<(?:\\w+:)?${tag}[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, "i"));
+  return m ? decodeXmlText(m[1]!) || undefined : undefined;
+}
+
+function blocks(xml: string, tag: string): string[] {
+  const re = new RegExp(`<(?:\\w+:)?${tag}[\\s>][\\s\\S]*?</(?:\\w+:)?${tag}>`, "gi");
+  return xml.match(re) ?? [];
+}
+
+/** Sitemap URLs from robots.txt, falling back to the usual paths. */
+export async function findSitemapUrls(blogUrl: string): Promise<string[]> {
+  const origin = new URL(blogUrl).origin;
+  const robots = await fetchText(`${origin}/robots.txt`);
+  const fromRobots = (robots?.text ?? "")
+    .split(/\r?\n/)
+    .map((line) => line.match(/^\s*sitemap:\s*(\S+)/i)?.[1])
+    .filter((u): u is string => !!u);
+  if (fromRobots.length > 0) return [...new Set(fromRobots)];
+  return SITEMAP_PATHS.map((p) => `${origin}/${p}`);
+}
+
+/**
+ * Read a sitemap or sitemap index (recursively, up to depth 3) and return all <url> entries.
+ * Child sitemaps that obviously hold tags/categories/authors/pages are skipped.
+ */
+export async function readSitemap(sitemapUrl: string, depth = 0, seen = new Set<string>()): Promise<SitemapEntry[]> {
+  if (depth > 3 || seen.has(sitemapUrl)) return [];
+  seen.add(sitemapUrl);
+  const res = await fetchText(sitemapUrl);
+  if (!res || !/<(\w+:)?(urlset|sitemapindex)[\s>]/i.test(res.text)) return [];
+
+  if (/<(\w+:)?sitemapindex[\s>]/i.test(res.text)) {
+    const entries: SitemapEntry[] = [];
+    for (const b of blocks(res.text, "sitemap")) {
+      const loc = tagText(b, "loc");
+      if (!loc || NON_POST_SITEMAP_RE.test(new URL(loc, res.url).pathname)) continue;
+      entries.push(...(await readSitemap(new URL(loc, res.url).href, depth + 1, seen)));
+    }
+    return entries;
+  }
+  return blocks(res.text, "url")
+    .map((b) => ({ url: tagText(b, "loc") ?? "", lastmod: tagText(b, "lastmod") }))
+    .filter((e) => e.url);
+}
+
+/** True if url looks like a single post on the blog (same host, not a listing/utility page or asset). */
+export function isPostLikeUrl(url: string, blogUrl: string): boolean {
+  try {
+    const u = new URL(url);
+    const blog = new URL(blogUrl);
+    if (u.hostname.replace(/^www\./, "") !== blog.hostname.replace(/^www\./, "")) return false;
+    const path = u.pathname.replace(/\/$/, "");
+    if (!path || path === blog.pathname.replace(/\/$/, "")) return false;
+    if (NON_POST_PATH_RE.test(path) || FILE_EXT_RE.test(path)) return false;
+    if (/\/page\/\d+$/.test(path)) return false;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Post-like URLs from the blog's sitemap(s), deduped, newest lastmod first when known. */
+export async function findSitemapPostUrls(blogUrl: string): Promise<SitemapEntry[]> {
+  const byUrl = new Map<string, SitemapEntry>();
+  for (const sitemapUrl of await findSitemapUrls(blogUrl)) {
+    for (const entry of await readSitemap(sitemapUrl)) {
+      if (isPostLikeUrl(entry.url, blogUrl) && !byUrl.has(entry.url)) byUrl.set(entry.url, entry);
+    }
+    if (byUrl.size > 0) break; // first sitemap that yields posts wins; the fallbacks usually mirror it
+  }
+  return [...byUrl.values()].sort((a, b) => (b.lastmod ?? "").localeCompare(a.lastmod ?? ""));
+}
+
+function metaContent(html: string, key: string): string | undefined {
+  const re = new RegExp(`<meta\\s[^>]*(?:property|name|itemprop)\\s*=\\s*["']${key}["'][^>]*>`, "i");
+  const tag = html.match(re)?.[0];
+  const content = tag?.match(/content\s*=\s*["']([^"']*)["']/i)?.[1];
+  return content ? decodeXmlText(content) : undefined;
+}
+
+/** JSON-LD objects of an Article-like @type (Article, BlogPosting, NewsArticle, …), flattening @graph. */
+function jsonLdArticles(html: string): Record<string, unknown>[] {
+  const out: Record<string, unknown>[] = [];
+  const re = /<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  let m: RegExpExecArray | null;
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) return node.forEach(visit);
+    if (!node || typeof node !== "object") return;
+    const obj = node as Record<string, unknown>;
+    const types = ([] as unknown[]).concat(obj["@type"] ?? []).map(String);
+    if (types.some((t) => /Article|BlogPosting|Posting/i.test(t))) out.push(obj);
+    if (obj["@graph"]) visit(obj["@graph"]);
+  };
+  while ((m = re.exec(html)) !== null) {
+    try {
+      visit(JSON.parse(m[1]!));
+    } catch {
+      // malformed JSON-LD
+    }
+  }
+  return out;
+}
+
+/** Content of the first <tag> element, up to its matching close tag (same-name elements may nest). */
+function innerOf(html: string, tag: string): string | undefined {
+  const open = html.match(new RegExp(`<${tag}(?:\\s[^>]*)?>`, "i"));
+  if (!open) return undefined;
+  const start = open.index! + open[0].length;
+  const re = new RegExp(`<(/?)${tag}(?:\\s[^>]*)?>`, "gi");
+  re.lastIndex = start;
+  let depth = 1;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(html)) !== null) {
+    depth += m[1] ? -1 : 1;
+    if (depth === 0) return html.slice(start, m.index).trim() || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Extract a post from a page's HTML. Returns null when the page has neither an article body nor a publish date
+ * (i.e. it is probably not a post).
+ */
+export function extractPostFromHtml(html: string, pageUrl: string): FeedItem | null {
+  const ld = jsonLdArticles(html)[0];
+  const ldString = (k: string) => (typeof ld?.[k] === "string" ? (ld[k] as string) : undefined);
+
+  const title =
+    metaContent(html, "og:title") ?? ldString("headline") ?? (innerOf(html, "title") ? decodeXmlText(innerOf(html, "title")!) : undefined);
+  const published =
+    metaContent(html, "article:published_time") ??
+    ldString("datePublished") ??
+    html.match(/<time[^>]*datetime\s*=\s*["']([^"']+)["']/i)?.[1];
+  const updated = metaContent(html, "article:modified_time") ?? ldString("dateModified");
+  const articleBody = innerOf(html, "article") ?? ldString("articleBody");
+  const description = metaContent(html, "og:description") ?? metaContent(html, "description") ?? ldString("description");
+
+  if (!articleBody && !published) return null;
+  const content = articleBody ?? innerOf(html, "main");
+  return {
+    title,
+    link: metaContent(html, "og:url") ?? pageUrl,
+    published,
+    updated,
+    content,
+    description,
+    guid: pageUrl,
+  };
+}
+
+/**
+ * Fetch every post-like sitemap URL not in knownUrls or seenUrls and extract it. Newest first (by lastmod), capped
+ * by maxPosts. Pages that could not be fetched are left out of seenUrls and retried on the next run.
+ */
+export async function fetchSitemapArchive(blogUrl: string, options: SitemapArchiveOptions = {}): Promise<FeedItem[]> {
+  const known = options.knownUrls ?? new Set<string>();
+  const seen = options.seenUrls ?? new Set<string>();
+  const normalize = options.normalizeUrl ?? ((u: string) => u);
+  const maxPosts = options.maxPosts ?? 500;
+  const delayMs = options.delayMs ?? 500;
+
+  const entries = (await findSitemapPostUrls(blogUrl)).filter((e) => !known.has(normalize(e.url)) && !seen.has(normalize(e.url)));
+  const items: FeedItem[] = [];
+  for (const entry of entries.slice(0, maxPosts)) {
+    const page = await fetchText(entry.url);
+    if (page) {
+      seen.add(normalize(entry.url));
+      const item = extractPostFromHtml(page.text, page.url);
+      if (item) items.push(item);
+    }
+    if (delayMs > 0) await sleep(delayMs);
+  }
+  if (entries.length > maxPosts) {
+    console.log(`Sitemap lists ${entries.length - maxPosts} more unarchived page(s); they will be fetched on the next sync.`);
+  }
+  return items;
+}
@@ -0,0 +1,75 @@
+/**
+ * Slugs for creator repos and post file names. No dependencies.
+ * Latin diacritics are stripped (Zoë → zoe, Łukasz → lukasz), Cyrillic and Greek are transliterated; letters from
+ * other scripts (CJK, Arabic, …) are dropped and replaced by a short hash of the original text so slugs stay distinct
+ * and deterministic. ASCII input gives the same slug as before: spaces become hyphens, other punctuation is removed.
+ */
+
+import { createHash } from "node:crypto";
+
+/** Letters NFKD does not decompose to ASCII. Keys are lowercase. */
+const TRANSLITERATION: Record<string, string> = {
+  // Latin
+  ß: "ss", æ: "ae", œ: "oe", ø: "o", ł: "l", đ: "d", ð: "d", þ: "th", ı: "i", ħ: "h", ŧ: "t", ŋ: "ng", ĸ: "k", ſ: "s",
+  // Cyrillic (Russian, Ukrainian, Belarusian, Serbian, Macedonian, Bulgarian)
+  а: "a", б: "b", в: "v", г: "g", д: "d", е: "e", ё: "yo", ж: "zh", з: "z", и: "i", й: "y", к: "k", л: "l", м: "m",
+  н: "n", о: "o", п: "p", р: "r", с: "s", т: "t", у: "u", ф: "f", х: "kh", ц: "ts", ч: "ch", ш: "sh", щ: "shch",
+  ъ: "", ы: "y", ь: "", э: "e", ю: "yu", я: "ya", і: "i", ї: "yi", є: "ye", ґ: "g", ў: "u", ђ: "dj", ј: "j", љ: "lj",
+  њ: "nj", ћ: "c", џ: "dz", ѓ: "gj", ќ: "kj", ѕ: "dz",
+  // Greek
+  α: "a", β: "v", γ: "g", δ: "d", ε: "e", ζ: "z", η: "i", θ: "th", ι: "i", κ: "k", λ: "l", μ: "m", ν: "n", ξ: "x",
+  ο: "o", π: "p", ρ: "r", σ: "s", ς: "s", τ: "t", υ: "y", φ: "f", χ: "ch", ψ: "ps", ω: "o",
+};
+
+export interface SlugOptions {
+  /** Slug when nothing usable is left, e.g. "creator" or "post" (default "item") */
+  fallback?: string;
+  /** Maximum length, including any hash suffix */
+  maxLength?: number;
+}
+
+/** ASCII for one character, or null if it is a letter/digit that cannot be transliterated. */
+function transliterateChar(c: string): string | null {
+  if (/[a-z0-9-]/.test(c)) return c;
+  if (/\s/.test(c)) return "-";
+  if (c in TRANSLITERATION) return TRANSLITERATION[c]!;
+  const base = c.normalize("NFKD").replace(/\p{M}/gu, "");
+  if (base !== c && base) {
+    let out = "";
+    for (const b of base) {
+      const t = transliterateChar(b);
+      if (t === null) return null;
+      out += t;
+    }
+    return out;
+  }
+  return /[\p{L}\p{N}]/u.test(c) ? null : "";
+}
+
+/** First 6 hex chars of sha256 over the normalized text. */
+function shortHash(text: string): string {
+  return createHash("sha256").update(text.trim().normalize("NFC").toLowerCase()).digest("hex").slice(0, 6);
+}
+
+/**
+ * Slug for a display name or post title: lowercase ASCII letters, digits and single hyphens.
+ * Text with letters that cannot be transliterated gets "-<hash>" ("<fallback>-<hash>" if nothing else is left);
+ * text with no letters or digits at all gives the fallback.
+ */
+export function slugify(text: string, options: SlugOptions = {}): string {
+  const fallback = options.fallback ?? "item";
+  let slug = "";
+  let lossy = false;
+  for (const c of text.trim().toLowerCase()) {
+    const t = transliterateChar(c);
+    if (t === null) lossy = true;
+    else slug += t;
+  }
+  slug = slug.replace(/-+/g, "-").replace(/^-|-$/g, "");
+
+  const suffix = lossy ? `-${shortHash(text)}` : "";
+  const max = options.maxLength ? options.maxLength - suffix.length : Infinity;
+  if (slug.length > max) slug = slug.slice(0, max).replace(/-$/, "");
+  if (!slug) return lossy ? `${fallback}${suffix}` : fallback;
+  return `${slug}${suffix}`;
+}
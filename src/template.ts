@@ -0,0 +1,225 @@
+/**
+ * Template rendering for scaffolded files, and the --template-dir overlay.
+ *
+ * Syntax (Mustache/Handlebars subset):
+ *   {{name}} {{a.b}}        value, escaped for the file type (see escapingFor)
+ *   {{{name}}}              value, unescaped
+ *   {{#if x}} … {{else}} … {{/if}}     also {{#if x == "substack"}}, {{#if x != "…"}}, {{#unless x}}
+ *   {{#each list}} … {{/each}}         {{this}}, {{@index}}, {{@first}}, {{@last}}; object items' fields by name
+ *   \{{                     literal {{
+ * GitHub Actions expressions (${{ … }}) are passed through untouched. A block tag alone on its line removes the line.
+ */
+
+import { readdir } from "node:fs/promises";
+import { join } from "node:path";
+
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+export type TemplateContext = Record<string, TemplateValue>;
+
+/** json: string values are escaped for use inside "…", other values written as JSON; yaml: scalars quoted when needed. */
+export type Escaping = "json" | "yaml" | "none";
+
+type Node =
+  | { type: "text"; text: string }
+  | { type: "var"; path: string; raw: boolean; line: number }
+  | { type: "if"; test: string; negate: boolean; then: Node[]; else: Node[]; line: number }
+  | { type: "each"; path: string; body: Node[]; line: number };
+
+/** Files rendered as templates; everything else (scripts, .gitignore) is copied as is. */
+export function isTemplatedFile(path: string): boolean {
+  return /\.(md|json|ya?ml)$/.test(path);
+}
+
+export function escapingFor(path: string): Escaping {
+  if (path.endsWith(".json")) return "json";
+  if (/\.ya?ml$/.test(path)) return "yaml";
+  return "none";
+}
+
+const TAG_RE = /\\\{\{|\$\{\{[\s\S]*?\}\}|\{\{\{\s*([\w.@]+)\s*\}\}\}|\{\{\s*([#/]?)\s*([^}]*?)\s*\}\}/g;
+/** Block tags alone on a line, with the line's indentation and newline. */
+const STANDALONE_RE = /^[ \t]*(\{\{\s*(?:[#/][^}]*|else)\s*\}\})[ \t]*\r?\n/gm;
+
+function lineAt(template: string, index: number): number {
+  return template.slice(0, index).split("\n").length;
+}
+
+function parse(template: string, name: string): Node[] {
+  const source = template.replace(STANDALONE_RE, "$1");
+  const root: Node[] = [];
+  // Open blocks; nodes are appended to the innermost one (its else branch after {{else}})
+  const stack: { node: Extract<Node, { type: "if" | "each" }>; inElse: boolean }[] = [];
+  const target = (): Node[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    if (top.node.type === "each") return top.node.body;
+    return top.inElse ? top.node.else : top.node.then;
+  };
+  const fail = (message: string, index: number): never => {
+    throw new Error(`${name}:${lineAt(source, index)}: ${message}`);
+  };
+
+  let last = 0;
+  for (const m of source.matchAll(TAG_RE)) {
+    const index = m.index!;
+    if (index > last) target().push({ type: "text", text: source.slice(last, index) });
+    last = index + m[0].length;
+    const line = lineAt(source, index);
+    if (m[0] === "\\{{") {
+      target().push({ type: "text", text: "{{" });
+    } else if (m[0].startsWith("$")) {
+      target().push({ type: "text", text: m[0] });
+    } else if (m[1]) {
+      target().push({ type: "var", path: m[1], raw: true, line });
+    } else if (m[2] === "#") {
+      const [, keyword, rest] = m[3]!.match(/^(\w+)\s*(.*)$/) ?? [];
+      if (!rest) fail(`"{{#${m[3]}}}" needs an argument`, index);
+      if (keyword === "if" || keyword === "unless") {
+        const node: Node = { type: "if", test: rest!, negate: keyword === "unless", then: [], else: [], line };
+        target().push(node);
+        stack.push({ node, inElse: false });
+      } else if (keyword === "each") {
+        const node: Node = { type: "each", path: rest!, body: [], line };
+        target().push(node);
+        stack.push({ node, inElse: false });
+      } else {
+        fail(`unknown block "{{#${keyword}}}"`, index);
+      }
+    } else if (m[2] === "/") {
+      const top = stack.pop();
+      const expected = top && (top.node.type === "each" ? "each" : top.node.negate ? "unless" : "if");
+      if (m[3] !== expected) fail(`"{{/${m[3]}}}" without a matching "{{#${m[3]}}}"`, index);
+    } else if (m[3] === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.node.type !== "if" || top.inElse) fail(`"{{else}}" outside an {{#if}} block`, index);
+      top!.inElse = true;
+    } else {
+      if (!/^[\w.@]+$/.test(m[3]!)) fail(`invalid tag "{{${m[3]}}}"`, index);
+      target().push({ type: "var", path: m[3]!, raw: false, line });
+    }
+  }
+  if (last < source.length) target().push({ type: "text", text: source.slice(last) });
+  const open = stack.pop();
+  if (open) throw new Error(`${name}:${open.node.line}: unclosed {{#${open.node.type === "each" ? "each" : "if"}}}`);
+  return root;
+}
+
+/** Look up a dotted path in the innermost scope that has its first segment. */
+function lookup(scopes: TemplateContext[], path: string): { found: boolean; value: TemplateValue } {
+  const [head, ...rest] = path.split(".");
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (!(head! in scopes[i]!)) continue;
+    let value: TemplateValue = scopes[i]![head!];
+    for (const key of rest) {
+      value = value && typeof value === "object" && !Array.isArray(value) ? value[key] : undefined;
+    }
+    return { found: true, value };
+  }
+  return { found: false, value: undefined };
+}
+
+function truthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === "object") return Object.keys(value).length > 0;
+  return !!value;
+}
+
+/** Plain YAML scalars that would not read back as the same string. */
+function needsYamlQuotes(s: string): boolean {
+  if (s === "" || s !== s.trim()) return true;
+  if (/^(true|false|yes|no|on|off|null|~|y|n)$/i.test(s)) return true;
+  if (/^[-+]?(\d[\d_]*)?(\.\d+)?([eE][-+]?\d+)?$/.test(s) || /^0[xo]/i.test(s)) return true;
+  if (/^[-?:,[\]{}#&*!|>'"%@`]/.test(s)) return true;
+  return /: |\s#|[\n\r\t]/.test(s) || s.endsWith(":");
+}
+
+function format(value: TemplateValue, escaping: Escaping): string {
+  if (value === null || value === undefined) return "";
+  if (escaping === "json") return typeof value === "string" ? JSON.stringify(value).slice(1, -1) : JSON.stringify(value);
+  if (typeof value === "string") return escaping === "yaml" && needsYamlQuotes(value) ? JSON.stringify(value) : value;
+  if (Array.isArray(value)) return escaping === "yaml" ? JSON.stringify(value) : value.map((v) => format(v, "none")).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function evaluate(test: string, scopes: TemplateContext[], name: string, line: number): boolean {
+  const m = test.match(/^([\w.@]+)(?:\s*(==|!=)\s*(?:"([^"]*)"|'([^']*)'|([\w.-]+)))?$/);
+  if (!m) throw new Error(`${name}:${line}: invalid condition "${test}"`);
+  const { found, value } = lookup(scopes, m[1]!);
+  if (!found) throw new Error(`${name}:${line}: unknown variable "${m[1]}"`);
+  if (!m[2]) return truthy(value);
+  const expected = m[3] ?? m[4] ?? m[5]!;
+  const equal = String(value ?? "") === expected;
+  return m[2] === "==" ? equal : !equal;
+}
+
+function renderNodes(nodes: Node[], scopes: TemplateContext[], escaping: Escaping, name: string): string {
+  let out = "";
+  for (const node of nodes) {
+    if (node.type === "text") {
+      out += node.text;
+    } else if (node.type === "var") {
+      const { found, value } = lookup(scopes, node.path);
+      if (!found) throw new Error(`${name}:${node.line}: unknown variable "${node.path}"`);
+      out += node.raw ? format(value, "none") : format(value, escaping);
+    } else if (node.type === "if") {
+      const pass = evaluate(node.test, scopes, name, node.line) !== node.negate;
+      out += renderNodes(pass ? node.then : node.else, scopes, escaping, name);
+    } else {
+      const { found, value } = lookup(scopes, node.path);
+      if (!found) throw new Error(`${name}:${node.line}: unknown variable "${node.path}"`);
+      const items = Array.isArray(value) ? value : [];
+      items.forEach((item, i) => {
+        const scope: TemplateContext = {
+          ...(item && typeof item === "object" && !Array.isArray(item) ? item : {}),
+          this: item,
+          "@index": i,
+          "@first": i === 0,
+          "@last": i === items.length - 1,
+        };
+        out += renderNodes(node.body, [...scopes, scope], escaping, name);
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Render a template with context. name (the template's path) is used in error messages and, unless
+ * escaping is given, to pick the escaping. Unknown variables and unbalanced blocks throw.
+ */
+export function renderTemplate(
+  template: string,
+  context: TemplateContext,
+  options: { name?: string; escaping?: Escaping } = {}
+): string {
+  const name = options.name ?? "template";
+  return renderNodes(parse(template, name), [context], options.escaping ?? escapingFor(name), name);
+}
+
+/**
+ * Template files for scaffolding, relative path → source path: the built-in templates with the overlay's files
+ * (same relative paths) replacing or adding to them.
+ */
+export async function collectTemplateFiles(baseDir: string, overlayDir?: string | null): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+  const walk = async (root: string, rel: string): Promise<void> => {
+    const entries = await readdir(join(root, rel), { withFileTypes: true }).catch(() => []);
+    for (const e of entries) {
+      const relPath = rel ? `${rel}/${e.name}` : e.name;
+      if (e.isDirectory()) await walk(root, relPath);
+      else files.set(relPath, join(root, relPath));
+    }
+  };
+  await walk(baseDir, "");
+  if (overlayDir) await walk(overlayDir, "");
+  return new Map([...files].sort(([a], [b]) => a.localeCompare(b)));
+}
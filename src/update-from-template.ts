@@ -1,14 +1,23 @@
 /**
  * Update-from-template: fetch a release tarball from the template repo and apply
  * template-owned files to a creator or index repo. Preserves user-owned files.
+ * .orange-tpot-lock.json records the hash of each template file as last applied, and .orange-tpot/base/ keeps its
+ * content. A file whose hash differs was edited locally: it is three-way merged (git merge-file) against that base
+ * instead of overwritten, and conflicts are written with markers, the local copy saved as <file>.orig.
  */
 
-import { readFile, writeFile, mkdir, readdir, stat } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { readFile, writeFile, mkdir, readdir, rm, stat } from "node:fs/promises";
+import { existsSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 import { spawnSync } from "node:child_process";
 import { tmpdir } from "node:os";
-import { getTemplateRepo, getTemplateTarballUrl, TEMPLATE_DEFAULT_REF } from "./config";
+import { getTemplateRepo, getTemplateTarballUrl, isTemplateVersionTag, TEMPLATE_DEFAULT_REF } from "./config";
+import type { Blogger } from "./parser";
+import { creatorTemplateContext } from "./scaffold-creator";
+import { isTemplatedFile, renderTemplate, type TemplateContext } from "./template";
+import { runMigrations, type MigrationResult } from "./migrations";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -22,6 +31,12 @@ const CREATOR_TEMPLATE_FILES = [
   "README.md",
   "SYNC_FULL.md",
   "scripts/sync-posts.ts",
+  "scripts/native-feed.ts",
+  "scripts/html-to-markdown.ts",
+  "scripts/substack-archive.ts",
+  "scripts/sitemap-archive.ts",
+  "scripts/post-stats.ts",
+  "scripts/slug.ts",
   "qmd/README.md",
 ];
 
@@ -29,15 +44,57 @@ const CREATOR_TEMPLATE_FILES = [
 const INDEX_TEMPLATE_FILES = [
   ".github/workflows/update-subrepos.yml",
   ".github/workflows/update-from-template.yml",
+  ".github/workflows/build-site.yml",
+  ".gitignore",
   ".orange-tpot-version",
   "package.json",
   "README.md",
   "scripts/update-manifest.ts",
+  "scripts/post-stats.ts",
   "scripts/sync-all-subrepos.ts",
+  "scripts/build-feeds.ts",
 ];
 
 export type RepoType = "creator" | "index";
 
+export const LOCK_FILE = ".orange-tpot-lock.json";
+
+/** Template files as last applied (same paths as in the lock): the merge base for the next update. */
+export const BASE_DIR = ".orange-tpot/base";
+
+/** Template version and sha256 of each template file (as rendered for this repo) when it was last applied. */
+interface TemplateLock {
+  version: string | null;
+  files: Record<string, string>;
+  /** Files last applied from a --template-dir overlay: locally owned, left alone by updates run without the overlay */
+  overlay?: string[];
+}
+
+/** What update did with one template file. */
+export interface UpdateFileResult {
+  path: string;
+  /**
+   * added: new template file; updated: unmodified locally, replaced; unchanged: already current;
+   * kept: edited locally and the template did not change; merged: local edits and template changes merged cleanly;
+   * conflict: written with conflict markers (local copy in <path>.orig); overlay: came from a --template-dir overlay
+   * and this update has none, so it is left as is
+   */
+  action: "added" | "updated" | "unchanged" | "kept" | "merged" | "conflict" | "overlay";
+  /** Unified diff of what update writes to the file (dry run only) */
+  diff?: string;
+}
+
+export interface UpdateOptions {
+  /** Template version: release tag (0.1.2, v0.1.2) or branch name. Default: latest release (or the source's version with from) */
+  version?: string;
+  /** Local template source instead of GitHub: a checkout of the template repo or a .tar.gz of one */
+  from?: string;
+  /** Report what would change, with diffs, without writing anything */
+  dryRun?: boolean;
+  /** --template-dir overlay: files under <templateDir>/<creator|index>/ are used instead of the template's */
+  templateDir?: string | null;
+}
+
 export async function detectRepoType(dir: string): Promise<RepoType | null> {
   try {
     await readFile(join(dir, "creator.json"), "utf-8");
@@ -87,74 +144,406 @@ async function fetchAndExtractTarball(version: string): Promise<{ tmpDir: string
   const res = await fetch(url, { headers: { "User-Agent": "orange-tpot-update" } });
   if (!res.ok) throw new Error(`Failed to fetch tarball ${url}: ${res.status}`);
 
-  const tmpDir = join(tmpdir(), `orange-tpot-update-${Date.now()}`);
+  const tmpDir = join(tmpdir(), `orange-tpot-update-${process.pid}-${Date.now()}`);
   await mkdir(tmpDir, { recursive: true });
   const tarballPath = join(tmpDir, "archive.tar.gz");
   const buffer = await res.arrayBuffer();
   await writeFile(tarballPath, Buffer.from(buffer));
+  return { tmpDir, topDir: await extractTarball(tarballPath, tmpDir) };
+}
 
-  const result = spawnSync("tar", ["-xzf", tarballPath, "-C", tmpDir], { stdio: "pipe" });
+/** Extract a .tar.gz into dir with system tar. Returns the top-level directory holding templates/ ("" if dir itself). */
+async function extractTarball(tarballPath: string, dir: string): Promise<string> {
+  const result = spawnSync("tar", ["-xzf", tarballPath, "-C", dir], { stdio: "pipe" });
   if (result.status !== 0) {
     throw new Error(`tar extract failed: ${result.stderr?.toString() || "unknown"}`);
   }
-
-  const entries = await readdir(tmpDir, { withFileTypes: true });
+  if (await isTemplateSource(dir)) return "";
+  const entries = await readdir(dir, { withFileTypes: true });
   const topDirEntry = entries.find((e) => e.isDirectory() && !e.name.startsWith("."));
   if (!topDirEntry) throw new Error("No top-level directory in tarball");
-  return { tmpDir, topDir: topDirEntry.name };
+  return topDirEntry.name;
 }
 
-/** Copy a file or directory from src to dest. For files, overwrite. */
-async function copyRecursive(src: string, dest: string): Promise<void> {
-  const st = await stat(src);
-  if (st.isDirectory()) {
-    await mkdir(dest, { recursive: true });
-    const entries = await readdir(src, { withFileTypes: true });
-    for (const e of entries) {
-      await copyRecursive(join(src, e.name), join(dest, e.name));
+async function isTemplateSource(dir: string): Promise<boolean> {
+  try {
+    return (await stat(join(dir, "templates"))).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Template source from a local checkout or .tar.gz (update --from). Returns the source root (the directory containing
+ * templates/), its package.json version if any, and a temp dir to remove when the source was extracted.
+ */
+async function openLocalSource(from: string): Promise<{ root: string; version: string | null; tmpDir: string | null }> {
+  let st;
+  try {
+    st = await stat(from);
+  } catch {
+    throw new Error(`Template source not found: ${from}`);
+  }
+  let root = from;
+  let tmpDir: string | null = null;
+  if (!st.isDirectory()) {
+    if (!/\.(tar\.gz|tgz)$/.test(from)) throw new Error(`Template source must be a directory or a .tar.gz: ${from}`);
+    tmpDir = join(tmpdir(), `orange-tpot-update-${process.pid}-${Date.now()}`);
+    await mkdir(tmpDir, { recursive: true });
+    root = join(tmpDir, await extractTarball(from, tmpDir));
+  }
+  if (!(await isTemplateSource(root))) {
+    if (tmpDir) await rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+    throw new Error(`No templates/ directory in ${from} (expected a checkout of ${getTemplateRepo()})`);
+  }
+  let version: string | null = null;
+  try {
+    version = JSON.parse(await readFile(join(root, "package.json"), "utf-8")).version ?? null;
+  } catch {
+    // no package.json: version comes from --version or defaults to "local"
+  }
+  return { root, version, tmpDir };
+}
+
+function sha256(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/** Template file paths (relative) under base for the type's list; directory entries are expanded. */
+async function listTemplateFiles(base: string, type: RepoType): Promise<string[]> {
+  const out: string[] = [];
+  const walk = async (rel: string): Promise<void> => {
+    let st;
+    try {
+      st = await stat(join(base, rel));
+    } catch {
+      return; // file might not exist in this version (e.g. new workflow)
+    }
+    if (!st.isDirectory()) {
+      out.push(rel);
+      return;
     }
-    return;
+    for (const e of await readdir(join(base, rel))) await walk(`${rel}/${e}`);
+  };
+  for (const rel of type === "creator" ? CREATOR_TEMPLATE_FILES : INDEX_TEMPLATE_FILES) {
+    // Written by update itself
+    if (rel !== ".orange-tpot-version") await walk(rel);
+  }
+  return out;
+}
+
+/** Template variables for a creator repo, from its creator.json (so README etc. render as they did at scaffold time). */
+async function creatorVars(targetDir: string): Promise<TemplateContext | null> {
+  try {
+    const c = JSON.parse(await readFile(join(targetDir, "creator.json"), "utf-8"));
+    const blogger: Blogger = {
+      displayName: c.displayName ?? "",
+      blogName: c.blogName ?? null,
+      blogUrl: c.blogUrl ?? null,
+      followUrl: c.followUrl ?? null,
+      imageUrl: c.imageUrl ?? null,
+      hexId: c.hexId ?? "",
+      slug: c.slug ?? "",
+      hasFeed: !!c.blogUrl,
+    };
+    // Feed values as recorded (they may have been discovered over the network at scaffold time)
+    const resolved =
+      typeof c.platform === "string" && c.platform
+        ? {
+            feedUrls: Array.isArray(c.feedUrls) ? c.feedUrls : [],
+            platform: c.platform,
+            supplementStrategy: typeof c.supplementStrategy === "string" ? c.supplementStrategy : "none",
+          }
+        : undefined;
+    return creatorTemplateContext(blogger, resolved);
+  } catch {
+    return null;
+  }
+}
+
+/** Template file content as this repo would have it: creator templates rendered (.md / .json / .yml). */
+function renderTemplateFile(rel: string, content: string, vars: TemplateContext | null): string {
+  if (!vars || !isTemplatedFile(rel)) return content;
+  return renderTemplate(content, vars, { name: rel });
+}
+
+async function readLock(targetDir: string): Promise<TemplateLock | null> {
+  try {
+    const raw = JSON.parse(await readFile(join(targetDir, LOCK_FILE), "utf-8"));
+    if (!raw || typeof raw.files !== "object") return null;
+    const overlay = Array.isArray(raw.overlay) ? raw.overlay.filter((f: unknown) => typeof f === "string") : [];
+    return { version: raw.version ?? null, files: raw.files, overlay };
+  } catch {
+    return null;
   }
-  await mkdir(dirname(dest), { recursive: true });
-  const content = await readFile(src);
-  await writeFile(dest, content);
 }
 
-/** Run update: fetch version (or use specified), extract tarball, copy template-owned files to targetDir. */
+async function writeLock(targetDir: string, lock: TemplateLock): Promise<void> {
+  const files = Object.fromEntries(Object.entries(lock.files).sort(([a], [b]) => a.localeCompare(b)));
+  const overlay = lock.overlay?.length ? { overlay: [...lock.overlay].sort() } : {};
+  await writeFile(
+    join(targetDir, LOCK_FILE),
+    JSON.stringify({ version: lock.version, files, ...overlay }, null, 2) + "\n",
+    "utf-8"
+  );
+}
+
+async function readBase(targetDir: string, rel: string): Promise<string | null> {
+  try {
+    return await readFile(join(targetDir, BASE_DIR, rel), "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+async function writeBase(targetDir: string, rel: string, content: string): Promise<void> {
+  const path = join(targetDir, BASE_DIR, rel);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, content, "utf-8");
+}
+
+/**
+ * Record the lock for a freshly scaffolded repo: the hash (and a base copy) of every template file as it is on disk now.
+ * Called by scaffolding so the first update can tell local edits from template output. overlay lists the files that
+ * came from a --template-dir overlay.
+ */
+export async function writeTemplateLock(
+  targetDir: string,
+  type: RepoType,
+  options: { overlay?: string[] } = {}
+): Promise<void> {
+  const files: Record<string, string> = {};
+  for (const rel of await listTemplateFiles(targetDir, type)) {
+    const content = await readFile(join(targetDir, rel), "utf-8");
+    files[rel] = sha256(content);
+    await writeBase(targetDir, rel, content);
+  }
+  const overlay = (options.overlay ?? []).filter((rel) => rel in files);
+  await writeLock(targetDir, { version: await getCurrentVersion(targetDir), files, overlay });
+}
+
+/**
+ * Three-way merge with git merge-file. Without git (or without a base) the whole file becomes one conflict block.
+ * Returns the merged text and whether it has conflicts.
+ */
+async function mergeThreeWay(
+  local: string,
+  base: string | null,
+  incoming: string,
+  incomingLabel: string
+): Promise<{ text: string; conflicts: boolean }> {
+  if (base !== null) {
+    const dir = join(tmpdir(), `orange-tpot-merge-${process.pid}-${Date.now()}`);
+    try {
+      await mkdir(dir, { recursive: true });
+      const paths = ["local", "base", "incoming"].map((n) => join(dir, n));
+      await Promise.all([local, base, incoming].map((content, i) => writeFile(paths[i]!, content, "utf-8")));
+      const res = spawnSync(
+        "git",
+        ["merge-file", "-p", "-L", "local", "-L", "previous template", "-L", incomingLabel, ...paths],
+        { encoding: "utf-8" }
+      );
+      // Exit status is the number of conflicts; negative (>127) on error
+      if (res.status !== null && res.status >= 0 && res.status < 128 && typeof res.stdout === "string") {
+        return { text: res.stdout, conflicts: res.status > 0 };
+      }
+    } catch {
+      // fall through to a whole-file conflict
+    } finally {
+      await rm(dir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+  const nl = (s: string) => (s.endsWith("\n") ? s : `${s}\n`);
+  return { text: `<<<<<<< local\n${nl(local)}=======\n${nl(incoming)}>>>>>>> ${incomingLabel}\n`, conflicts: true };
+}
+
+/** Unified diff (diff -u) of one file; before null means the file is new. Without diff, every line is replaced. */
+async function unifiedDiff(rel: string, before: string | null, after: string): Promise<string> {
+  const fromLabel = before === null ? "/dev/null" : `a/${rel}`;
+  const dir = join(tmpdir(), `orange-tpot-diff-${process.pid}-${Date.now()}`);
+  try {
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "a"), before ?? "", "utf-8");
+    await writeFile(join(dir, "b"), after, "utf-8");
+    const res = spawnSync("diff", ["-u", "--label", fromLabel, "--label", `b/${rel}`, join(dir, "a"), join(dir, "b")], {
+      encoding: "utf-8",
+    });
+    // Exit status 1: files differ
+    if (res.status === 1 && typeof res.stdout === "string") return res.stdout;
+  } catch {
+    // fall through
+  } finally {
+    await rm(dir, { recursive: true, force: true }).catch(() => {});
+  }
+  const lines = (s: string) => (s ? s.replace(/\n$/, "").split("\n") : []);
+  const a = lines(before ?? "");
+  const b = lines(after);
+  return [
+    `--- ${fromLabel}`,
+    `+++ b/${rel}`,
+    `@@ -${a.length ? 1 : 0},${a.length} +${b.length ? 1 : 0},${b.length} @@`,
+    ...a.map((l) => `-${l}`),
+    ...b.map((l) => `+${l}`),
+  ].join("\n") + "\n";
+}
+
+/**
+ * Run update: fetch version (or use specified), extract tarball, apply template-owned files to targetDir.
+ * Files not edited since the last update are replaced; edited files are kept (template unchanged) or three-way merged
+ * against the previous template version. Any "conflict" result means files with conflict markers were written.
+ * Then runs the data migrations between the previous and the new version (see migrations.ts).
+ * With from, the template comes from a local checkout or .tar.gz; with dryRun nothing is written and each changed
+ * file's result carries a diff.
+ */
 export async function runUpdate(
   targetDir: string,
-  versionOverride?: string
-): Promise<{ version: string; type: RepoType; filesUpdated: number }> {
+  options: UpdateOptions = {}
+): Promise<{
+  version: string;
+  type: RepoType;
+  filesUpdated: number;
+  files: UpdateFileResult[];
+  migrations: MigrationResult[];
+}> {
   const type = await detectRepoType(targetDir);
   if (!type) throw new Error("Not an orange-tpot repo (no creator.json or creators/repos.json)");
 
-  const versionToFetch =
-    versionOverride?.trim() && versionOverride !== "latest"
-      ? versionOverride.replace(/^v/, "")
-      : await fetchLatestVersion();
+  const requested = options.version?.trim() && options.version !== "latest" ? options.version.trim() : null;
+  // Tags are stored without the leading v; branch names ("vendor-fix") are kept as they are
+  const normalized = requested && isTemplateVersionTag(requested) ? requested.replace(/^v/, "") : requested;
+  const previousVersion = await getCurrentVersion(targetDir);
+
+  const tmpDirs: string[] = [];
+  let versionToFetch: string;
+  let templateBase: string;
+  if (options.from) {
+    const source = await openLocalSource(options.from);
+    if (source.tmpDir) tmpDirs.push(source.tmpDir);
+    versionToFetch = normalized ?? source.version ?? "local";
+    templateBase = join(source.root, "templates", type);
+  } else {
+    versionToFetch = normalized ?? (await fetchLatestVersion());
+    const { tmpDir, topDir } = await fetchAndExtractTarball(versionToFetch);
+    tmpDirs.push(tmpDir);
+    templateBase = join(tmpDir, topDir, "templates", type);
+  }
+  const write = async (path: string, content: string): Promise<void> => {
+    if (options.dryRun) return;
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, content, "utf-8");
+  };
+  const withDiff = async (result: UpdateFileResult, before: string | null, after: string): Promise<UpdateFileResult> =>
+    options.dryRun ? { ...result, diff: await unifiedDiff(result.path, before, after) } : result;
 
-  const { tmpDir, topDir } = await fetchAndExtractTarball(versionToFetch);
-  const templateBase = join(tmpDir, topDir, "templates", type);
+  // Previous template version, for repos without .orange-tpot/base/: fetched only when an edited file needs merging,
+  // and never with from (a local source must work offline)
+  let previousBase: string | null | undefined;
+  const loadPreviousBase = async (): Promise<string | null> => {
+    if (previousBase !== undefined) return previousBase;
+    previousBase = null;
+    if (previousVersion && !options.from) {
+      try {
+        const prev = await fetchAndExtractTarball(previousVersion);
+        tmpDirs.push(prev.tmpDir);
+        previousBase = join(prev.tmpDir, prev.topDir, "templates", type);
+      } catch {
+        // no base: edited files become whole-file conflicts
+      }
+    }
+    return previousBase;
+  };
 
-  const fileList = type === "creator" ? CREATOR_TEMPLATE_FILES : INDEX_TEMPLATE_FILES;
+  const vars = type === "creator" ? await creatorVars(targetDir) : null;
+  const lock = (await readLock(targetDir)) ?? { version: previousVersion, files: {} };
+  const lockedHashes = { ...lock.files };
+  const overlayFiles = new Set(lock.overlay ?? []);
+  const applied = new Map<string, string>();
+  const files: UpdateFileResult[] = [];
   let filesUpdated = 0;
-  for (const rel of fileList) {
-    const src = join(templateBase, rel);
+
+  // Overlay files stand in for the template's in both the new and the previous version
+  const overlay = options.templateDir ? join(options.templateDir, type) : null;
+  const templateFile = (root: string, rel: string): string =>
+    overlay && existsSync(join(overlay, rel)) ? join(overlay, rel) : join(root, rel);
+
+  for (const rel of await listTemplateFiles(templateBase, type)) {
+    // Customised through an overlay that this update was not given: the stock template must not replace it
+    if (!overlay && overlayFiles.has(rel)) {
+      files.push({ path: rel, action: "overlay" });
+      continue;
+    }
+    if (overlay && existsSync(join(overlay, rel))) overlayFiles.add(rel);
+    else overlayFiles.delete(rel);
+    const incoming = renderTemplateFile(rel, await readFile(templateFile(templateBase, rel), "utf-8"), vars);
+    const incomingHash = sha256(incoming);
+    const dest = join(targetDir, rel);
+    let local: string | null = null;
     try {
-      await stat(src);
+      local = await readFile(dest, "utf-8");
     } catch {
-      continue; // file might not exist in this version (e.g. new workflow)
+      // new file
     }
-    const dest = join(targetDir, rel);
-    await copyRecursive(src, dest);
+    lock.files[rel] = incomingHash;
+    applied.set(rel, incoming);
+
+    if (local === null) {
+      await write(dest, incoming);
+      filesUpdated++;
+      files.push(await withDiff({ path: rel, action: "added" }, null, incoming));
+      continue;
+    }
+    if (local === incoming) {
+      files.push({ path: rel, action: "unchanged" });
+      continue;
+    }
+
+    // Base: the template file as last applied, when its hash matches the lock (or there is no lock to check against).
+    // Stored under .orange-tpot/base/; older repos fall back to re-rendering the previous release
+    const lockedHash: string | undefined = lockedHashes[rel];
+    let base: string | null = null;
+    if (lockedHash !== sha256(local)) {
+      const stored = await readBase(targetDir, rel);
+      if (stored !== null && (!lockedHash || sha256(stored) === lockedHash)) base = stored;
+      const baseDir = base === null ? await loadPreviousBase() : null;
+      if (baseDir) {
+        try {
+          const candidate = renderTemplateFile(rel, await readFile(templateFile(baseDir, rel), "utf-8"), vars);
+          if (!lockedHash || sha256(candidate) === lockedHash) base = candidate;
+        } catch {
+          // file is new in this version
+        }
+      }
+    }
+    const edited = lockedHash ? sha256(local) !== lockedHash : base === null || local !== base;
+
+    if (!edited) {
+      await write(dest, incoming);
+      filesUpdated++;
+      files.push(await withDiff({ path: rel, action: "updated" }, local, incoming));
+      continue;
+    }
+    if (lockedHash === incomingHash || (base !== null && base === incoming)) {
+      files.push({ path: rel, action: "kept" });
+      continue;
+    }
+
+    const merged = await mergeThreeWay(local, base, incoming, `template ${versionToFetch}`);
+    if (merged.conflicts) await write(`${dest}.orig`, local);
+    await write(dest, merged.text);
     filesUpdated++;
+    files.push(await withDiff({ path: rel, action: merged.conflicts ? "conflict" : "merged" }, local, merged.text));
   }
 
-  await writeFile(join(targetDir, ".orange-tpot-version"), `${versionToFetch}\n`, "utf-8");
+  const migrations = await runMigrations(targetDir, type, previousVersion, versionToFetch, { dryRun: options.dryRun });
+
+  if (!options.dryRun) {
+    await writeFile(join(targetDir, ".orange-tpot-version"), `${versionToFetch}\n`, "utf-8");
+    await writeLock(targetDir, { version: versionToFetch, files: lock.files, overlay: [...overlayFiles] });
+    for (const [rel, content] of applied) await writeBase(targetDir, rel, content);
+  }
   filesUpdated++;
 
-  const { rm } = await import("node:fs/promises");
-  await rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+  for (const dir of tmpDirs) await rm(dir, { recursive: true, force: true }).catch(() => {});
 
-  return { version: versionToFetch, type, filesUpdated };
+  return { version: versionToFetch, type, filesUpdated, files, migrations };
 }
@@ -0,0 +1,424 @@
+/**
+ * HTML → Markdown for post bodies (Substack, WordPress, Ghost, generic feeds). No dependencies.
+ * Parses into a small element tree, drops known boilerplate (subscribe/share widgets, scripts, inline styles),
+ * then renders headings, paragraphs, lists, links, images, blockquotes, footnotes, code blocks and tables.
+ */
+
+interface ElementNode {
+  type: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: Node[];
+}
+
+interface TextNode {
+  type: "text";
+  text: string;
+}
+
+type Node = ElementNode | TextNode;
+
+const VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr",
+]);
+
+/** Elements whose content is never rendered. */
+const DROP_TAGS = new Set([
+  "script", "style", "noscript", "template", "svg", "button", "form", "input", "select", "textarea", "head", "title",
+]);
+
+const BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "header", "footer", "main", "aside", "nav", "figure", "center", "details", "summary",
+  "dl", "dt", "dd", "address",
+]);
+
+/** Class names of subscribe/share/related-post widgets emitted by Substack, WordPress/Jetpack and Ghost. */
+const BOILERPLATE_CLASSES = new Set([
+  // Substack
+  "subscription-widget-wrap",
+  "subscription-widget-wrap-editor",
+  "subscription-widget",
+  "subscribe-widget",
+  "button-wrapper",
+  "share-dialog",
+  "post-ufi",
+  "captioned-button-wrap",
+  "community-chat",
+  "install-substack-app-embed",
+  // WordPress / Jetpack
+  "sharedaddy",
+  "sd-sharing-enabled",
+  "sd-like",
+  "jp-relatedposts",
+  "wp-block-jetpack-subscriptions",
+  "wpcnt",
+  "wpcnt-wrapper",
+  // Ghost
+  "kg-signup-card",
+  "kg-cta-card",
+  "gh-post-upgrade-cta",
+]);
+
+const BOILERPLATE_LINK_TEXT = /^(subscribe( now)?|share( this post)?|leave a comment|give a gift subscription|upgrade to paid|get \d+% off.*)$/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+  hellip: "…", mdash: "—", ndash: "–", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”",
+  laquo: "«", raquo: "»", copy: "©", reg: "®", trade: "™", middot: "·", bull: "•", deg: "°",
+  times: "×", frac12: "½", eacute: "é", egrave: "è", uuml: "ü", ouml: "ö", auml: "ä", zwj: "‍", zwnj: "‌",
+};
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z][a-z0-9]*);/gi, (whole, ent: string) => {
+    if (ent[0] === "#") {
+      const code = ent[1] === "x" || ent[1] === "X" ? parseInt(ent.slice(2), 16) : parseInt(ent.slice(1), 10);
+      return isNaN(code) ? whole : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[ent] ?? NAMED_ENTITIES[ent.toLowerCase()] ?? whole;
+  });
+}
+
+function parseAttrs(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re = /([^\s=/"'>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(raw)) !== null) {
+    attrs[m[1]!.toLowerCase()] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? "");
+  }
+  return attrs;
+}
+
+/** Tags that implicitly close an open element of the same kind (e.g. <li> after <li>). */
+const SELF_NESTING_CLOSES = new Set(["p", "li", "dt", "dd", "tr", "td", "th", "option"]);
+
+function parseHtml(html: string): ElementNode {
+  const root: ElementNode = { type: "element", tag: "#root", attrs: {}, children: [] };
+  const stack: ElementNode[] = [root];
+  const re = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<!doctype[^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/gi;
+  let last = 0;
+  let m: RegExpExecArray | null;
+
+  const top = () => stack[stack.length - 1]!;
+  const pushText = (text: string) => {
+    if (text) top().children.push({ type: "text", text: decodeEntities(text) });
+  };
+
+  while ((m = re.exec(html)) !== null) {
+    pushText(html.slice(last, m.index));
+    last = re.lastIndex;
+    if (m[1] != null) {
+      top().children.push({ type: "text", text: m[1] });
+      continue;
+    }
+    const tagName = m[3]?.toLowerCase();
+    if (!tagName) continue; // comment or doctype
+    const closing = m[2] === "/";
+    if (closing) {
+      const idx = stack.map((n) => n.tag).lastIndexOf(tagName);
+      if (idx > 0) stack.length = idx;
+      continue;
+    }
+    const rawAttrs = m[4] ?? "";
+    if (SELF_NESTING_CLOSES.has(tagName) && top().tag === tagName) stack.pop();
+    const el: ElementNode = { type: "element", tag: tagName, attrs: parseAttrs(rawAttrs), children: [] };
+    top().children.push(el);
+    if (tagName === "script" || tagName === "style") {
+      // Raw text: skip to the matching close tag
+      const end = html.toLowerCase().indexOf(`</${tagName}`, last);
+      const close = end === -1 ? html.length : html.indexOf(">", end) + 1 || html.length;
+      last = close;
+      re.lastIndex = close;
+      continue;
+    }
+    if (!VOID_TAGS.has(tagName) && !/\/\s*$/.test(rawAttrs)) stack.push(el);
+  }
+  pushText(html.slice(last));
+  return root;
+}
+
+function classList(el: ElementNode): string[] {
+  return (el.attrs.class ?? "").split(/\s+/).filter(Boolean);
+}
+
+function hasClass(el: ElementNode, name: string): boolean {
+  return classList(el).includes(name);
+}
+
+function textOf(node: Node): string {
+  if (node.type === "text") return node.text;
+  return node.children.map(textOf).join("");
+}
+
+function elementChildren(el: ElementNode): ElementNode[] {
+  return el.children.filter((c): c is ElementNode => c.type === "element");
+}
+
+function isBoilerplate(el: ElementNode): boolean {
+  if (classList(el).some((c) => BOILERPLATE_CLASSES.has(c))) return true;
+  // Paragraph or link whose only content is a "Subscribe now" / "Share" call to action
+  if (el.tag === "a" || el.tag === "p") {
+    const text = textOf(el).replace(/\s+/g, " ").trim();
+    if (BOILERPLATE_LINK_TEXT.test(text) && (el.tag === "a" || elementChildren(el).some((c) => c.tag === "a"))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Footnote label from "1", "[1]", "fn1", "fn:1", "footnote-1". */
+function footnoteLabel(raw: string): string {
+  const cleaned = raw.trim().replace(/^\[|\]$/g, "");
+  const m = cleaned.match(/^(?:fn|footnote)[-:_]?(\w+)$/i);
+  return (m ? m[1]! : cleaned).replace(/[^\w-]/g, "") || "1";
+}
+
+function isFootnoteRef(a: ElementNode): boolean {
+  if (hasClass(a, "footnote-anchor") || hasClass(a, "footnote-ref")) return true;
+  const href = a.attrs.href ?? "";
+  return /^#(fn|footnote)[-:_]?\w+$/i.test(href) && /^\[?\w{1,4}\]?$/.test(textOf(a).trim());
+}
+
+function isFootnoteBackref(a: ElementNode): boolean {
+  if (hasClass(a, "footnote-backref") || hasClass(a, "footnote-number")) return true;
+  return /^#(fnref|footnote-anchor|footnote-ref)[-:_]?\w*$/i.test(a.attrs.href ?? "");
+}
+
+interface RenderContext {
+  codeBlocks: string[];
+}
+
+function codeBlockPlaceholder(ctx: RenderContext, block: string): string {
+  ctx.codeBlocks.push(block);
+  return `\n\n\u0000CODE${ctx.codeBlocks.length - 1}\u0000\n\n`;
+}
+
+function hasCodeBlocks(text: string): boolean {
+  return text.includes("\u0000CODE");
+}
+
+function restoreCodeBlocks(text: string, ctx: RenderContext): string {
+  return text.replace(/\u0000CODE(\d+)\u0000/g, (_, i: string) => ctx.codeBlocks[parseInt(i, 10)] ?? "");
+}
+
+function renderChildren(el: ElementNode, ctx: RenderContext): string {
+  return el.children
+    .map((c, i) => {
+      // A text node can start a Markdown line when it comes first or right after a <br>
+      const prev = el.children[i - 1];
+      return renderNode(c, ctx, !prev || (prev.type === "element" && prev.tag === "br"));
+    })
+    .join("");
+}
+
+function block(content: string): string {
+  const trimmed = content.trim();
+  return trimmed ? `\n\n${trimmed}\n\n` : "";
+}
+
+function wrapInline(content: string, marker: string): string {
+  const trimmed = content.trim();
+  if (!trimmed) return content;
+  const lead = content.match(/^\s*/)![0] ? " " : "";
+  const trail = content.match(/\s*$/)![0] ? " " : "";
+  return `${lead}${marker}${trimmed}${marker}${trail}`;
+}
+
+/** Drop trailing whitespace (keeping "  " hard breaks) and collapse runs of blank lines. */
+function tidyLines(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line.trim() && line.endsWith("  ") ? line.replace(/\s+$/, "  ") : line.replace(/\s+$/, "")))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n");
+}
+
+function indentContinuation(text: string, indent: string): string {
+  return text
+    .split("\n")
+    .map((line, i) => (i === 0 || !line ? line : indent + line))
+    .join("\n");
+}
+
+function renderList(el: ElementNode, ctx: RenderContext): string {
+  const ordered = el.tag === "ol";
+  let n = parseInt(el.attrs.start ?? "1", 10);
+  if (isNaN(n)) n = 1;
+  const lines: string[] = [];
+  let code = false;
+  for (const li of elementChildren(el)) {
+    if (li.tag !== "li") continue;
+    const marker = ordered ? `${n++}.` : "-";
+    const content = renderChildren(li, ctx).trim().replace(/\n{2,}/g, "\n");
+    code ||= hasCodeBlocks(content);
+    lines.push(`${marker} ${indentContinuation(restoreCodeBlocks(content, ctx), " ".repeat(marker.length + 1))}`);
+  }
+  if (lines.length === 0) return "";
+  // Code blocks are put back before indenting so their lines are indented too; the list is then kept verbatim
+  return code ? codeBlockPlaceholder(ctx, lines.join("\n")) : `\n\n${lines.join("\n")}\n\n`;
+}
+
+function renderPre(el: ElementNode, ctx: RenderContext): string {
+  const code = elementChildren(el).find((c) => c.tag === "code");
+  const langClass = [...classList(el), ...(code ? classList(code) : [])].find((c) => /^(language|lang)-/.test(c));
+  const lang = langClass ? langClass.replace(/^(language|lang)-/, "") : "";
+  const text = textOf(el).replace(/^\n/, "").replace(/\s+$/, "");
+  const fence = text.includes("```") ? "~~~" : "```";
+  return codeBlockPlaceholder(ctx, `${fence}${lang}\n${text}\n${fence}`);
+}
+
+function renderTable(el: ElementNode, ctx: RenderContext): string {
+  const rows: string[][] = [];
+  const collect = (node: ElementNode) => {
+    for (const child of elementChildren(node)) {
+      if (child.tag === "tr") {
+        rows.push(
+          elementChildren(child)
+            .filter((c) => c.tag === "td" || c.tag === "th")
+            .map((c) => renderChildren(c, ctx).replace(/\s+/g, " ").replace(/\|/g, "\\|").trim())
+        );
+      } else if (child.tag === "thead" || child.tag === "tbody" || child.tag === "tfoot") {
+        collect(child);
+      }
+    }
+  };
+  collect(el);
+  if (rows.length === 0) return "";
+  const width = Math.max(...rows.map((r) => r.length));
+  const fmt = (r: string[]) => `| ${Array.from({ length: width }, (_, i) => r[i] ?? "").join(" | ")} |`;
+  const lines = [fmt(rows[0]!), `| ${Array(width).fill("---").join(" | ")} |`, ...rows.slice(1).map(fmt)];
+  return `\n\n${lines.join("\n")}\n\n`;
+}
+
+function renderFootnoteDefinition(label: string, content: string): string {
+  const body = content.trim().replace(/\n{2,}/g, "\n");
+  return `\n\n[^${label}]: ${indentContinuation(body, "    ")}\n\n`;
+}
+
+function renderLink(el: ElementNode, ctx: RenderContext): string {
+  if (isFootnoteRef(el)) return `[^${footnoteLabel(textOf(el))}]`;
+  if (isFootnoteBackref(el)) return "";
+  const inner = renderChildren(el, ctx);
+  const href = (el.attrs.href ?? "").trim();
+  // Image wrapped in a link (Substack image-link, lightbox anchors): keep just the image
+  if (elementChildren(el).length > 0 && !textOf(el).trim() && /!\[/.test(inner)) return inner;
+  if (!inner.trim()) return "";
+  if (!href || /^(javascript:|#)/i.test(href)) return inner;
+  return `[${inner.trim()}](${href.replace(/ /g, "%20")})`;
+}
+
+function renderElement(el: ElementNode, ctx: RenderContext): string {
+  if (DROP_TAGS.has(el.tag) || isBoilerplate(el)) return "";
+
+  // Substack footnote: <div class="footnote"><a class="footnote-number">1</a><div class="footnote-content">…</div></div>
+  if (hasClass(el, "footnote")) {
+    const number = elementChildren(el).find((c) => c.tag === "a");
+    const contentEl = elementChildren(el).find((c) => hasClass(c, "footnote-content"));
+    const label = footnoteLabel(number ? textOf(number) : el.attrs.id ?? "");
+    return renderFootnoteDefinition(label, contentEl ? renderChildren(contentEl, ctx) : renderChildren(el, ctx));
+  }
+  // Generic footnote section: <section class="footnotes"><ol><li id="fn1">…</li></ol></section>
+  if (hasClass(el, "footnotes") || el.attrs.role === "doc-endnotes") {
+    const list = elementChildren(el).find((c) => c.tag === "ol");
+    if (list) {
+      return elementChildren(list)
+        .filter((li) => li.tag === "li")
+        .map((li, i) => renderFootnoteDefinition(li.attrs.id ? footnoteLabel(li.attrs.id) : String(i + 1), renderChildren(li, ctx)))
+        .join("");
+    }
+  }
+
+  const tag = el.tag;
+  const heading = tag.match(/^h([1-6])$/);
+  if (heading) {
+    const text = renderChildren(el, ctx).replace(/\s+/g, " ").trim();
+    return text ? `\n\n${"#".repeat(parseInt(heading[1]!, 10))} ${text}\n\n` : "";
+  }
+
+  switch (tag) {
+    case "br":
+      return "  \n";
+    case "hr":
+      return "\n\n---\n\n";
+    case "strong":
+    case "b":
+      return wrapInline(renderChildren(el, ctx), "**");
+    case "em":
+    case "i":
+      return wrapInline(renderChildren(el, ctx), "_");
+    case "s":
+    case "del":
+    case "strike":
+      return wrapInline(renderChildren(el, ctx), "~~");
+    case "code": {
+      const text = textOf(el);
+      if (!text.trim()) return "";
+      const ticks = text.includes("`") ? "``" : "`";
+      return `${ticks}${text}${ticks}`;
+    }
+    case "pre":
+      return renderPre(el, ctx);
+    case "a":
+      return renderLink(el, ctx);
+    case "img": {
+      const src = el.attrs.src ?? el.attrs["data-src"] ?? "";
+      if (!src) return "";
+      return `![${(el.attrs.alt ?? "").replace(/[[\]]/g, "")}](${src.replace(/ /g, "%20")})`;
+    }
+    case "iframe":
+      return el.attrs.src ? block(`[Embedded content](${el.attrs.src})`) : "";
+    case "picture":
+      return elementChildren(el).filter((c) => c.tag === "img").map((c) => renderElement(c, ctx)).join("");
+    case "figcaption":
+      return block(wrapInline(renderChildren(el, ctx), "_"));
+    case "ul":
+    case "ol":
+      return renderList(el, ctx);
+    case "li":
+      // <li> outside a list
+      return block(`- ${renderChildren(el, ctx).trim()}`);
+    case "blockquote": {
+      const inner = tidyLines(renderChildren(el, ctx)).trim();
+      if (!inner) return "";
+      // Code blocks are put back before prefixing so their lines are quoted too; the quote is then kept verbatim
+      const quoted = restoreCodeBlocks(inner, ctx).split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n");
+      return hasCodeBlocks(inner) ? codeBlockPlaceholder(ctx, quoted) : block(quoted);
+    }
+    case "table":
+      return renderTable(el, ctx);
+    case "sup":
+    case "sub": {
+      const inner = renderChildren(el, ctx);
+      // Footnote refs are usually <sup><a href="#fn1">1</a></sup>; don't double-wrap them
+      return /^\[\^[^\]]+\]$/.test(inner.trim()) ? inner.trim() : inner;
+    }
+    default:
+      if (BLOCK_TAGS.has(tag)) return block(renderChildren(el, ctx));
+      return renderChildren(el, ctx);
+  }
+}
+
+/**
+ * Backslash-escape what Markdown would read as formatting in post text: emphasis, code and link brackets anywhere,
+ * and a heading or quote marker when the text starts a line.
+ */
+function escapeMarkdown(text: string, lineStart: boolean): string {
+  const escaped = text.replace(/[\\`*_[\]]/g, "\\$&");
+  return lineStart ? escaped.replace(/^(\s*)([#>])/, "$1\\$2") : escaped;
+}
+
+function renderNode(node: Node, ctx: RenderContext, lineStart: boolean): string {
+  if (node.type === "text") return escapeMarkdown(node.text.replace(/\s+/g, " "), lineStart);
+  return renderElement(node, ctx);
+}
+
+/** True if text contains HTML tags (otherwise it's already plain text / Markdown and is left alone). */
+export function looksLikeHtml(text: string): boolean {
+  return /<\/?(p|div|span|a|br|h[1-6]|ul|ol|li|img|blockquote|pre|code|em|strong|b|i|figure|table|section|article)\b[^>]*>/i.test(text);
+}
+
+/** Convert an HTML fragment to clean Markdown. */
+export function htmlToMarkdown(html: string): string {
+  const ctx: RenderContext = { codeBlocks: [] };
+  const markdown = tidyLines(renderChildren(parseHtml(html), ctx)).trim();
+  return restoreCodeBlocks(markdown, ctx);
+}
@@ -0,0 +1,165 @@
+/**
+ * substack_archive supplement strategy: pages through a Substack publication's archive API
+ * ({origin}/api/v1/archive?sort=new&offset=…&limit=…) to backfill posts the RSS feed no longer returns
+ * (Substack feeds only carry the latest ~20). Full bodies come from {origin}/api/v1/posts/{slug}.
+ * Progress is kept in a SubstackArchiveState: the first runs page through the whole archive (resuming at the stored
+ * offset), later runs stop at the first full page of posts already archived.
+ * Set ORANGE_TPOT_SUBSTACK_API_BASE to point at a local stand-in serving recorded archive pages.
+ */
+
+import type { FeedItem } from "./native-feed";
+
+/** Archive post as returned by /api/v1/archive and /api/v1/posts/{slug} (fields we use). */
+interface SubstackPost {
+  title?: string;
+  subtitle?: string;
+  slug?: string;
+  post_date?: string;
+  updated_at?: string;
+  canonical_url?: string;
+  audience?: string;
+  description?: string;
+  truncated_body_text?: string;
+  body_html?: string | null;
+  id?: number | string;
+}
+
+/** Feed item plus paywall info (written to metadata as paywalled / audience). */
+export interface ArchiveItem extends FeedItem {
+  paywalled: boolean;
+  audience?: string;
+}
+
+/** Backfill progress, persisted by sync between runs (substack-archive.json). */
+export interface SubstackArchiveState {
+  /** Archive offset the backfill resumes from. */
+  offset: number;
+  /** Set once the last archive page has been read; from then on only new posts are paged through. */
+  complete: boolean;
+  /** Slugs whose body could not be fetched; they are fetched again on the next run. */
+  retrySlugs: string[];
+}
+
+export interface SubstackArchiveOptions {
+  /** Normalized links already archived; these are skipped without fetching their bodies. */
+  knownUrls?: Set<string>;
+  /** Normalizer applied to canonical_url before checking knownUrls. */
+  normalizeUrl?: (url: string) => string;
+  /** Page size for /api/v1/archive (default 12). */
+  pageSize?: number;
+  /** Safety cap on pages fetched (default 500). */
+  maxPages?: number;
+  /** Delay between requests in ms (default 500) to stay under Substack rate limits. */
+  delayMs?: number;
+  /** Backfill progress; updated in place so the caller can save it. Defaults to a fresh backfill. */
+  state?: SubstackArchiveState;
+}
+
+const USER_AGENT = "orange-tpot-sync (+https://github.com/metaspn/orange-tpot-tooling)";
+const PAYWALLED_AUDIENCES = new Set(["only_paid", "founding"]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Archive API origin: ORANGE_TPOT_SUBSTACK_API_BASE if set, else the blog URL's origin (works for custom domains). */
+export function getSubstackApiBase(blogUrl: string): string {
+  const override = process.env?.ORANGE_TPOT_SUBSTACK_API_BASE;
+  if (override && override.trim()) return override.trim().replace(/\/$/, "");
+  return new URL(blogUrl).origin;
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const res = await fetch(url, { headers: { "User-Agent": USER_AGENT, Accept: "application/json" } });
+  if (!res.ok) throw new Error(`${url} returned ${res.status}`);
+  return (await res.json()) as T;
+}
+
+function toItem(post: SubstackPost, fullBody: string | null | undefined): ArchiveItem {
+  const paywalled = PAYWALLED_AUDIENCES.has(post.audience ?? "");
+  return {
+    title: post.title,
+    link: post.canonical_url,
+    published: post.post_date,
+    updated: post.updated_at,
+    content: fullBody || undefined,
+    description: post.description || post.subtitle || post.truncated_body_text,
+    guid: post.id != null ? String(post.id) : post.canonical_url,
+    paywalled,
+    audience: post.audience,
+  };
+}
+
+/** Fetch a post's full body from /api/v1/posts/{slug}; null when the request fails. */
+async function fetchPostBody(base: string, slug: string): Promise<SubstackPost | null> {
+  try {
+    return await fetchJson<SubstackPost>(`${base}/api/v1/posts/${encodeURIComponent(slug)}`);
+  } catch (err) {
+    console.warn(`Could not fetch body for ${slug}: ${err instanceof Error ? err.message : err}`);
+    return null;
+  }
+}
+
+/**
+ * Fetch archived posts not in knownUrls, newest first.
+ * Until state.complete, paging resumes at state.offset and runs to the end of the archive (or maxPages); after that it
+ * stops at the first full page whose posts are all known. Posts whose body fetch fails are left out and their slugs
+ * added to state.retrySlugs. Paywalled posts are included with whatever body the API exposes (usually a preview)
+ * and paywalled: true.
+ */
+export async function fetchSubstackArchive(blogUrl: string, options: SubstackArchiveOptions = {}): Promise<ArchiveItem[]> {
+  const base = getSubstackApiBase(blogUrl);
+  const pageSize = options.pageSize ?? 12;
+  const maxPages = options.maxPages ?? 500;
+  const delayMs = options.delayMs ?? 500;
+  const known = options.knownUrls ?? new Set<string>();
+  const normalize = options.normalizeUrl ?? ((u: string) => u);
+  const state = options.state ?? { offset: 0, complete: false, retrySlugs: [] };
+  const isKnown = (post: SubstackPost) => !post.canonical_url || known.has(normalize(post.canonical_url));
+
+  const items: ArchiveItem[] = [];
+  const retrySlugs = state.retrySlugs;
+  state.retrySlugs = [];
+  for (const slug of retrySlugs) {
+    if (delayMs > 0) await sleep(delayMs);
+    const full = await fetchPostBody(base, slug);
+    if (!full) state.retrySlugs.push(slug);
+    else if (!isKnown(full)) items.push(toItem(full, full.body_html));
+  }
+
+  const catchingUp = state.complete;
+  let offset = catchingUp ? 0 : state.offset;
+  for (let page = 0; page < maxPages; page++) {
+    const posts = await fetchJson<SubstackPost[]>(`${base}/api/v1/archive?sort=new&offset=${offset}&limit=${pageSize}`);
+    if (!Array.isArray(posts) || posts.length === 0) {
+      state.complete = true;
+      break;
+    }
+
+    let unknown = 0;
+    for (const post of posts) {
+      if (isKnown(post)) continue;
+      unknown++;
+      let body = post.body_html;
+      if (!body && post.slug) {
+        if (delayMs > 0) await sleep(delayMs);
+        const full = await fetchPostBody(base, post.slug);
+        if (!full) {
+          if (!state.retrySlugs.includes(post.slug)) state.retrySlugs.push(post.slug);
+          continue;
+        }
+        body = full.body_html;
+      }
+      items.push(toItem(post, body));
+    }
+    offset += posts.length;
+    if (!catchingUp) state.offset = offset;
+    if (posts.length < pageSize) {
+      state.complete = true;
+      break;
+    }
+    if (catchingUp && unknown === 0) break;
+    if (delayMs > 0) await sleep(delayMs);
+  }
+  return items;
+}
@@ -1,12 +1,23 @@
 /**
- * Sync script for creator repo: runs blog-toolkit pull then ingests JSON into posts/ and metadata/.
- * Requires uv/uvx and blog-toolkit (uvx blog-toolkit pull). Run from creator repo root: bun run scripts/sync-posts.ts
+ * Sync script for creator repo: fetches posts then ingests them into posts/ and metadata/.
+ * Fetcher is chosen by creator.json "fetcher": "blog-toolkit" (default; runs uvx blog-toolkit pull) or "native"
+ * (built-in RSS/Atom/JSON Feed fetcher over feedUrls). Falls back to native when uvx is not installed.
+ * Then runs creator.json "supplementStrategy" to backfill posts the feed doesn't expose ("substack_archive", "sitemap")
+ * and writes stats.json (post count, date range, word counts) for the index manifest.
+ * Run from creator repo root: bun run scripts/sync-posts.ts
  */
 
 import { readFile, writeFile, mkdir, readdir } from "node:fs/promises";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 import { spawnSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import { fetchFeedItems } from "./native-feed";
+import { htmlToMarkdown, looksLikeHtml } from "./html-to-markdown";
+import { fetchSubstackArchive, type SubstackArchiveState } from "./substack-archive";
+import { fetchSitemapArchive } from "./sitemap-archive";
+import { writePostStats } from "./post-stats";
+import { slugify } from "./slug";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const ROOT = join(__dirname, "..");
@@ -20,22 +31,19 @@ interface CreatorJson {
   followUrl?: string | null;
   feedUrls: string[];
   slug: string;
+  fetcher?: Fetcher;
+  /** Keep the previous markdown of edited posts under revisions/ */
+  keepRevisions?: boolean;
+  supplementStrategy?: string;
+  /** Blog platform detected at scaffold time (substack, ghost, wordpress, …, custom) */
+  platform?: string;
 }
 
+type Fetcher = "native" | "blog-toolkit";
+
 /** Blog-toolkit pull output: array of posts or { posts: [...] }. Each post may use link/url, published/pub_date/published_at/date, content/body/description, title, guid/id. */
 type BlogToolkitRaw = unknown;
 
-function slugify(title: string): string {
-  return title
-    .trim()
-    .toLowerCase()
-    .replace(/\s+/g, "-")
-    .replace(/[^a-z0-9-]/g, "")
-    .replace(/-+/g, "-")
-    .replace(/^-|-$/g, "")
-    .slice(0, 80) || "post";
-}
-
 function formatDate(d: Date): string {
   return d.toISOString().slice(0, 10);
 }
@@ -69,10 +77,16 @@ function getPostLink(post: Record<string, unknown>, blogUrl: string): string | n
   return null;
 }
 
-/** Get content from blog-toolkit post: content, body, or description. */
-function getPostContent(post: Record<string, unknown>): string {
+/** Source body of a blog-toolkit post as fetched: content, body, or description (HTML or text). */
+function getPostSource(post: Record<string, unknown>): string {
   const raw = (post.content ?? post.body ?? post.description) as string | undefined;
-  return (typeof raw === "string" ? raw : "").trim() || "See link for full content.";
+  return (typeof raw === "string" ? raw : "").trim();
+}
+
+/** Post body as Markdown: the source, with HTML converted. */
+function getPostContent(source: string): string {
+  const text = looksLikeHtml(source) ? htmlToMarkdown(source) : source;
+  return text || "See link for full content.";
 }
 
 /** Get title from blog-toolkit post. */
@@ -81,6 +95,14 @@ function getPostTitle(post: Record<string, unknown>): string {
   return (typeof t === "string" ? t : "").trim() || "Untitled";
 }
 
+/** Paywall fields from supplement items (substack_archive): paywalled and audience, when present. */
+function getPaywallInfo(post: Record<string, unknown>): { paywalled?: boolean; audience?: string } {
+  const info: { paywalled?: boolean; audience?: string } = {};
+  if (typeof post.paywalled === "boolean") info.paywalled = post.paywalled;
+  if (typeof post.audience === "string" && post.audience) info.audience = post.audience;
+  return info;
+}
+
 /** Get guid from blog-toolkit post: guid or id or link. */
 function getPostGuid(post: Record<string, unknown>, link: string): string {
   const g = (post.guid ?? post.id ?? post.link ?? post.url) as string | undefined;
@@ -89,14 +111,13 @@ function getPostGuid(post: Record<string, unknown>, link: string): string {
 
 /**
  * Ingest blog-toolkit pull JSON into posts/ and metadata/.
- * Handles top-level array or { posts: [...] }. Maps link/url, published/pub_date/published_at/date, content/body/description, title, guid/id.
- * Returns number of posts written.
+ * Handles top-level array or { posts: [...] }; see ingestPosts for field mapping.
  */
 async function ingestBlogToolkitJson(
   jsonPath: string,
   rootDir: string,
   creator: CreatorJson
-): Promise<number> {
+): Promise<IngestResult> {
   const raw = await readFile(jsonPath, "utf-8");
   const data = JSON.parse(raw) as BlogToolkitRaw;
 
@@ -109,15 +130,78 @@ async function ingestBlogToolkitJson(
     throw new Error("blog-toolkit JSON must be an array of posts or { posts: [...] }");
   }
 
+  return ingestPosts(items, rootDir, creator);
+}
+
+/** Stored metadata/<baseName>.json shape (fields this script reads back). */
+interface PostMeta {
+  title?: string;
+  link?: string;
+  published?: string | null;
+  updated?: string;
+  contentHash?: string;
+  revisionCount?: number;
+  editedAt?: string;
+  [key: string]: unknown;
+}
+
+/** Result of an ingest run: new posts written and existing posts rewritten because they were edited. */
+interface IngestResult {
+  written: number;
+  updated: number;
+}
+
+/** contentHash prefix; hashes without it were taken over the converted Markdown and are only replaced. */
+const CONTENT_HASH_PREFIX = "sha256:src:";
+
+/**
+ * Hash of a post as the blog serves it (title + source body, whitespace collapsed); changes when the author edits it,
+ * not when the HTML-to-Markdown conversion changes.
+ */
+function hashPostContent(title: string, source: string): string {
+  const body = source.replace(/\s+/g, " ").trim();
+  return CONTENT_HASH_PREFIX + createHash("sha256").update(`${title}\n\n${body}`).digest("hex");
+}
+
+/**
+ * Save the current markdown of an edited post to revisions/<baseName>/<timestamp>.md before it is rewritten.
+ */
+async function saveRevision(rootDir: string, baseName: string, previous: PostMeta): Promise<void> {
+  const mdPath = join(rootDir, "posts", `${baseName}.md`);
+  let current: string;
+  try {
+    current = await readFile(mdPath, "utf-8");
+  } catch {
+    return;
+  }
+  const stamp = (previous.editedAt || previous.updated || new Date().toISOString()).replace(/[:.]/g, "-");
+  const revisionDir = join(rootDir, "revisions", baseName);
+  await mkdir(revisionDir, { recursive: true });
+  await writeFile(join(revisionDir, `${stamp}.md`), current, "utf-8");
+}
+
+/**
+ * Ingest post objects (blog-toolkit or native fetcher shape) into posts/ and metadata/, deduped by normalized link.
+ * Maps link/url, published/pub_date/published_at/date, updated/updated_at/modified, content/body/description, title, guid/id.
+ * Posts already on disk are rewritten in place (same filename) when their content hash or source updated timestamp
+ * changes; with creator.json keepRevisions the previous markdown is kept under revisions/<baseName>/.
+ */
+async function ingestPosts(
+  items: Record<string, unknown>[],
+  rootDir: string,
+  creator: CreatorJson
+): Promise<IngestResult> {
   const blogUrl = (creator.blogUrl || "").trim();
   const feedUrl = (Array.isArray(creator.feedUrls) && creator.feedUrls[0]) || blogUrl || "";
-  const source = blogUrl.includes("substack.com") ? "substack" : "blog";
+  const source = creator.platform === "substack" || blogUrl.includes("substack.com") ? "substack" : "blog";
 
   const postsDir = join(rootDir, "posts");
   const metadataDir = join(rootDir, "metadata");
   await mkdir(postsDir, { recursive: true });
   await mkdir(metadataDir, { recursive: true });
 
+  /** Normalized link → existing post (filename without extension + stored metadata). */
+  const existingByUrl = new Map<string, { baseName: string; meta: PostMeta }>();
   const seenUrls = new Set<string>();
   const seenFilenames = new Set<string>();
 
@@ -126,8 +210,8 @@ async function ingestBlogToolkitJson(
     if (!f.endsWith(".json")) continue;
     try {
       const metaRaw = await readFile(join(metadataDir, f), "utf-8");
-      const meta = JSON.parse(metaRaw) as { link?: string };
-      if (meta.link) seenUrls.add(normalizePostUrl(meta.link));
+      const meta = JSON.parse(metaRaw) as PostMeta;
+      if (meta.link) existingByUrl.set(normalizePostUrl(meta.link), { baseName: f.replace(/\.json$/, ""), meta });
     } catch {
       // ignore
     }
@@ -137,7 +221,7 @@ async function ingestBlogToolkitJson(
     if (f.endsWith(".md")) seenFilenames.add(f.replace(/\.md$/, ""));
   }
 
-  let written = 0;
+  const result: IngestResult = { written: 0, updated: 0 };
   for (const post of items) {
     if (!post || typeof post !== "object") continue;
     const link = getPostLink(post as Record<string, unknown>, blogUrl);
@@ -152,27 +236,61 @@ async function ingestBlogToolkitJson(
         (post as Record<string, unknown>).published_at ??
         (post as Record<string, unknown>).date
     );
+    const sourceUpdated = parsePostDate(
+      (post as Record<string, unknown>).updated ??
+        (post as Record<string, unknown>).updated_at ??
+        (post as Record<string, unknown>).modified
+    );
     const dateStr = pubDate ? formatDate(pubDate) : "unknown";
     const title = getPostTitle(post as Record<string, unknown>);
-    const slug = slugify(title);
-    let baseName = `${dateStr}_${slug}`;
-    if (seenFilenames.has(baseName)) {
-      let n = 1;
-      while (seenFilenames.has(`${baseName}-${n}`)) n++;
-      baseName = `${baseName}-${n}`;
+    const postSource = getPostSource(post as Record<string, unknown>);
+    const content = getPostContent(postSource);
+    const contentHash = hashPostContent(title, postSource);
+    const updated = (sourceUpdated ?? pubDate)?.toISOString();
+
+    const existing = existingByUrl.get(normalized);
+    let baseName: string;
+    let history: Pick<PostMeta, "revisionCount" | "editedAt"> = {};
+    if (existing) {
+      const prev = existing.meta;
+      if (!prev.contentHash?.startsWith(CONTENT_HASH_PREFIX)) {
+        // Archived before source hashes were recorded: adopt the current hash and source updated time as the
+        // baseline without rewriting the post (older metadata may hold the published date as updated)
+        await writeFile(
+          join(metadataDir, `${existing.baseName}.json`),
+          JSON.stringify({ ...prev, contentHash, ...(updated ? { updated } : {}) }, null, 2),
+          "utf-8"
+        );
+        continue;
+      }
+      const sourceChanged = !!sourceUpdated && !!prev.updated && updated !== prev.updated;
+      if (prev.contentHash === contentHash && !sourceChanged) continue;
+      baseName = existing.baseName;
+      if (creator.keepRevisions) await saveRevision(rootDir, baseName, prev);
+      history = { revisionCount: (prev.revisionCount ?? 0) + 1, editedAt: new Date().toISOString() };
+    } else {
+      const slug = slugify(title, { fallback: "post", maxLength: 80 });
+      baseName = `${dateStr}_${slug}`;
+      if (seenFilenames.has(baseName)) {
+        let n = 1;
+        while (seenFilenames.has(`${baseName}-${n}`)) n++;
+        baseName = `${baseName}-${n}`;
+      }
+      seenFilenames.add(baseName);
     }
-    seenFilenames.add(baseName);
 
-    const content = getPostContent(post as Record<string, unknown>);
     const meta = {
       title,
       link: normalized,
       published: pubDate ? pubDate.toISOString() : null,
-      updated: pubDate ? pubDate.toISOString() : undefined,
+      updated,
       source,
       feedUrl,
       description: (content.slice(0, 500) !== content ? content.slice(0, 500) + "…" : content) || undefined,
       guid: getPostGuid(post as Record<string, unknown>, normalized),
+      ...getPaywallInfo(post as Record<string, unknown>),
+      contentHash,
+      ...history,
     };
 
     const mdPath = join(postsDir, `${baseName}.md`);
@@ -181,17 +299,41 @@ async function ingestBlogToolkitJson(
 
     const metaPath = join(metadataDir, `${baseName}.json`);
     await writeFile(metaPath, JSON.stringify(meta, null, 2), "utf-8");
-    written++;
+    if (existing) result.updated++;
+    else result.written++;
   }
 
-  return written;
+  return result;
 }
 
-async function main(): Promise<void> {
-  const creatorPath = join(ROOT, "creator.json");
-  const raw = await readFile(creatorPath, "utf-8");
-  const creator: CreatorJson = JSON.parse(raw);
+/** True if uvx is on PATH (blog-toolkit fetcher needs it). */
+function isUvxAvailable(): boolean {
+  const result = spawnSync("uvx", ["--version"], { stdio: "ignore", shell: false });
+  return !result.error && result.status === 0;
+}
 
+/** Fetcher from creator.json (default blog-toolkit); falls back to native when uvx is missing. */
+function resolveFetcher(creator: CreatorJson): Fetcher {
+  const wanted: Fetcher = creator.fetcher === "native" ? "native" : "blog-toolkit";
+  if (wanted === "blog-toolkit" && !isUvxAvailable()) {
+    console.warn("uvx not found; falling back to the native feed fetcher.");
+    return "native";
+  }
+  return wanted;
+}
+
+async function syncNative(creator: CreatorJson): Promise<void> {
+  const feedUrls = (Array.isArray(creator.feedUrls) ? creator.feedUrls : []).filter((u) => u && u.trim());
+  if (feedUrls.length === 0) {
+    console.error("creator.json must have feedUrls for native sync.");
+    process.exit(1);
+  }
+  const items = await fetchFeedItems(feedUrls);
+  const { written, updated } = await ingestPosts(items as Record<string, unknown>[], ROOT, creator);
+  console.log("Synced", written, "new and", updated, "edited posts from feed.");
+}
+
+async function syncBlogToolkit(creator: CreatorJson): Promise<void> {
   const blogUrl = (creator.blogUrl || "").trim();
   if (!blogUrl) {
     console.error("creator.json must have blogUrl for blog-toolkit sync.");
@@ -213,8 +355,100 @@ async function main(): Promise<void> {
     process.exit(result.status ?? 1);
   }
 
-  const written = await ingestBlogToolkitJson(outPath, ROOT, creator);
-  console.log("Synced", written, "posts from blog-toolkit.");
+  const { written, updated } = await ingestBlogToolkitJson(outPath, ROOT, creator);
+  console.log("Synced", written, "new and", updated, "edited posts from blog-toolkit.");
+}
+
+/** Normalized links of every post already in metadata/. */
+async function readArchivedUrls(rootDir: string): Promise<Set<string>> {
+  const urls = new Set<string>();
+  const metadataDir = join(rootDir, "metadata");
+  const files = await readdir(metadataDir).catch(() => []);
+  for (const f of files) {
+    if (!f.endsWith(".json")) continue;
+    try {
+      const meta = JSON.parse(await readFile(join(metadataDir, f), "utf-8")) as { link?: string };
+      if (meta.link) urls.add(normalizePostUrl(meta.link));
+    } catch {
+      // ignore
+    }
+  }
+  return urls;
+}
+
+/** Sitemap pages already fetched by the sitemap strategy (see fetchSitemapArchive seenUrls). */
+const SITEMAP_SEEN_FILE = "sitemap-seen.json";
+
+async function readSitemapSeen(rootDir: string): Promise<Set<string>> {
+  try {
+    const urls = JSON.parse(await readFile(join(rootDir, SITEMAP_SEEN_FILE), "utf-8"));
+    return new Set(Array.isArray(urls) ? urls.filter((u): u is string => typeof u === "string") : []);
+  } catch {
+    return new Set();
+  }
+}
+
+/** Substack archive backfill progress (see fetchSubstackArchive state). */
+const SUBSTACK_STATE_FILE = "substack-archive.json";
+
+async function readSubstackState(rootDir: string): Promise<SubstackArchiveState> {
+  try {
+    const state = JSON.parse(await readFile(join(rootDir, SUBSTACK_STATE_FILE), "utf-8"));
+    return {
+      offset: typeof state?.offset === "number" ? state.offset : 0,
+      complete: state?.complete === true,
+      retrySlugs: Array.isArray(state?.retrySlugs) ? state.retrySlugs.filter((s: unknown): s is string => typeof s === "string") : [],
+    };
+  } catch {
+    return { offset: 0, complete: false, retrySlugs: [] };
+  }
+}
+
+/** Run creator.json supplementStrategy after the primary fetch. Failures are reported but don't fail the sync. */
+async function runSupplement(creator: CreatorJson): Promise<void> {
+  const strategy = creator.supplementStrategy || "none";
+  if (strategy === "none") return;
+  const blogUrl = (creator.blogUrl || "").trim();
+  if (!blogUrl) return;
+
+  try {
+    const knownUrls = await readArchivedUrls(ROOT);
+    const normalizeUrl = (u: string) => normalizePostUrl(u, blogUrl);
+    if (strategy === "substack_archive") {
+      const state = await readSubstackState(ROOT);
+      const items = await fetchSubstackArchive(blogUrl, { knownUrls, normalizeUrl, state });
+      await writeFile(join(ROOT, SUBSTACK_STATE_FILE), JSON.stringify(state, null, 2) + "\n", "utf-8");
+      const { written } = await ingestPosts(items as unknown as Record<string, unknown>[], ROOT, creator);
+      console.log("Backfilled", written, "posts from the Substack archive.");
+    } else if (strategy === "sitemap") {
+      const seenUrls = await readSitemapSeen(ROOT);
+      const items = await fetchSitemapArchive(blogUrl, { knownUrls, seenUrls, normalizeUrl });
+      await writeFile(join(ROOT, SITEMAP_SEEN_FILE), JSON.stringify([...seenUrls].sort(), null, 2) + "\n", "utf-8");
+      const { written } = await ingestPosts(items as Record<string, unknown>[], ROOT, creator);
+      console.log("Backfilled", written, "posts from the sitemap.");
+    } else {
+      console.warn(`Unknown supplementStrategy "${strategy}"; skipping.`);
+    }
+  } catch (err) {
+    console.error(`Supplement ${strategy} failed: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const creatorPath = join(ROOT, "creator.json");
+  const raw = await readFile(creatorPath, "utf-8");
+  const creator: CreatorJson = JSON.parse(raw);
+
+  if (resolveFetcher(creator) === "native") {
+    await syncNative(creator);
+  } else {
+    await syncBlogToolkit(creator);
+  }
+  await runSupplement(creator);
+  await writePostStats(ROOT);
 }
 
-main();
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
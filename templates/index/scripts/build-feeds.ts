@@ -0,0 +1,265 @@
+/**
+ * Build subscribable feeds for the index from subrepos/<slug>/metadata/*.json.
+ * Writes the latest posts across all creators (newest published first) to feeds/all.xml (RSS 2.0),
+ * feeds/all.atom (Atom) and feeds/all.json (JSON Feed 1.1), each item attributed to its creator,
+ * plus per-creator mirror feeds feeds/creators/<slug>.{xml,atom,json}.
+ * Run from index repo root: bun run build-feeds
+ * Options (use -- before args): --limit <n> (items per feed, default 50), --base-url <url> (where feeds/ is
+ * published, for self links; or ORANGE_TPOT_FEEDS_BASE_URL), --title <text> (aggregate feed title).
+ */
+
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT = join(__dirname, "..");
+const SUBREPOS_DIR = join(ROOT, "subrepos");
+const FEEDS_DIR = join(ROOT, "feeds");
+
+interface CreatorJson {
+  displayName?: string;
+  blogName?: string | null;
+  blogUrl?: string | null;
+  feedUrls?: string[];
+  slug?: string;
+}
+
+interface PostMeta {
+  title?: string;
+  link?: string;
+  published?: string | null;
+  updated?: string;
+  description?: string;
+  guid?: string;
+}
+
+/** One post in an output feed, with the creator it came from. */
+interface FeedPost {
+  title: string;
+  link: string;
+  id: string;
+  published: string;
+  updated: string;
+  summary: string;
+  /** feedUrl: the creator's own (first) feed, for RSS <source> */
+  creator: { slug: string; name: string; blogName: string | null; blogUrl: string | null; feedUrl: string | null };
+}
+
+interface FeedInfo {
+  title: string;
+  description: string;
+  /** Home page for the feed (blog URL for a creator, base URL for the aggregate) */
+  homeUrl: string | null;
+  /** Published URL of feeds/<path> without extension, or null if no base URL is set */
+  selfBase: string | null;
+}
+
+function parseArgs(argv: string[]): { limit: number; baseUrl: string | null; title: string } {
+  let limit = 50;
+  let baseUrl: string | null = process.env?.ORANGE_TPOT_FEEDS_BASE_URL || null;
+  let title = "Creator index — latest posts";
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--limit" && argv[i + 1]) limit = Math.max(1, parseInt(argv[++i], 10) || 50);
+    else if (argv[i] === "--base-url" && argv[i + 1]) baseUrl = argv[++i];
+    else if (argv[i] === "--title" && argv[i + 1]) title = argv[++i];
+  }
+  return { limit, baseUrl: baseUrl ? baseUrl.replace(/\/$/, "") : null, title };
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function validIso(value: unknown): string | null {
+  if (typeof value !== "string" || !value) return null;
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+/** Dated posts for one creator repo, newest first. Posts without a published date are left out. */
+async function readCreatorPosts(dir: string, creator: CreatorJson, fallbackSlug: string): Promise<FeedPost[]> {
+  const metaDir = join(dir, "metadata");
+  const files = (await readdir(metaDir).catch(() => [])).filter((f) => f.endsWith(".json"));
+  const who = {
+    slug: creator.slug || fallbackSlug,
+    name: creator.displayName || fallbackSlug,
+    blogName: creator.blogName || null,
+    blogUrl: creator.blogUrl || null,
+    feedUrl: (Array.isArray(creator.feedUrls) && creator.feedUrls.find((u) => typeof u === "string" && u)) || null,
+  };
+  const posts: FeedPost[] = [];
+  for (const f of files) {
+    let meta: PostMeta;
+    try {
+      meta = JSON.parse(await readFile(join(metaDir, f), "utf-8")) as PostMeta;
+    } catch {
+      continue;
+    }
+    const published = validIso(meta.published);
+    if (!meta.link || !published) continue;
+    posts.push({
+      title: meta.title || "Untitled",
+      link: meta.link,
+      id: meta.guid || meta.link,
+      published,
+      updated: validIso(meta.updated) ?? published,
+      summary: meta.description ?? "",
+      creator: who,
+    });
+  }
+  return newestFirst(posts);
+}
+
+function newestFirst(posts: FeedPost[]): FeedPost[] {
+  return posts.sort((a, b) => b.published.localeCompare(a.published) || a.link.localeCompare(b.link));
+}
+
+/** Feed-level updated / lastBuildDate for a feed with no posts: fixed, so rebuilding it doesn't change the file. */
+const EMPTY_FEED_UPDATED = new Date(0).toISOString();
+
+/** Newest updated time across posts (feed-level updated / lastBuildDate); EMPTY_FEED_UPDATED for a feed with no posts. */
+function latestUpdate(posts: FeedPost[]): string {
+  if (posts.length === 0) return EMPTY_FEED_UPDATED;
+  return posts.reduce((max, p) => (p.updated > max ? p.updated : max), posts[0]!.updated);
+}
+
+function toRss(info: FeedInfo, posts: FeedPost[]): string {
+  const items = posts.map((p) => {
+    const source = p.creator.feedUrl
+      ? `\n      <source url="${escapeXml(p.creator.feedUrl)}">${escapeXml(p.creator.blogName || p.creator.name)}</source>`
+      : "";
+    return `    <item>
+      <title>${escapeXml(p.title)}</title>
+      <link>${escapeXml(p.link)}</link>
+      <guid isPermaLink="${p.id === p.link}">${escapeXml(p.id)}</guid>
+      <pubDate>${new Date(p.published).toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(p.creator.name)}</dc:creator>${source}
+      <description>${escapeXml(p.summary)}</description>
+    </item>`;
+  });
+  const self = info.selfBase
+    ? `\n    <atom:link href="${escapeXml(info.selfBase)}.xml" rel="self" type="application/rss+xml"/>`
+    : "";
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(info.title)}</title>
+    <link>${escapeXml(info.homeUrl ?? "")}</link>
+    <description>${escapeXml(info.description)}</description>${self}
+    <lastBuildDate>${new Date(latestUpdate(posts)).toUTCString()}</lastBuildDate>
+${items.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+function toAtom(info: FeedInfo, posts: FeedPost[], feedId: string): string {
+  const entries = posts.map((p) => {
+    const uri = p.creator.blogUrl ? `<uri>${escapeXml(p.creator.blogUrl)}</uri>` : "";
+    return `  <entry>
+    <title>${escapeXml(p.title)}</title>
+    <link rel="alternate" href="${escapeXml(p.link)}"/>
+    <id>${escapeXml(p.id)}</id>
+    <published>${p.published}</published>
+    <updated>${p.updated}</updated>
+    <author><name>${escapeXml(p.creator.name)}</name>${uri}</author>
+    <summary>${escapeXml(p.summary)}</summary>
+  </entry>`;
+  });
+  const links = [
+    info.homeUrl ? `  <link rel="alternate" href="${escapeXml(info.homeUrl)}"/>` : "",
+    info.selfBase ? `  <link rel="self" href="${escapeXml(info.selfBase)}.atom"/>` : "",
+  ].filter(Boolean);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(info.title)}</title>
+  <subtitle>${escapeXml(info.description)}</subtitle>
+  <id>${escapeXml(info.selfBase ? `${info.selfBase}.atom` : feedId)}</id>
+  <updated>${latestUpdate(posts)}</updated>
+${[...links, ...entries].join("\n")}
+</feed>
+`;
+}
+
+function toJsonFeed(info: FeedInfo, posts: FeedPost[]): string {
+  const feed: Record<string, unknown> = {
+    version: "https://jsonfeed.org/version/1.1",
+    title: info.title,
+    description: info.description,
+    ...(info.homeUrl ? { home_page_url: info.homeUrl } : {}),
+    ...(info.selfBase ? { feed_url: `${info.selfBase}.json` } : {}),
+    items: posts.map((p) => ({
+      id: p.id,
+      url: p.link,
+      title: p.title,
+      summary: p.summary || undefined,
+      content_text: p.summary || p.title,
+      date_published: p.published,
+      date_modified: p.updated,
+      authors: [{ name: p.creator.name, ...(p.creator.blogUrl ? { url: p.creator.blogUrl } : {}) }],
+      _creator: { slug: p.creator.slug, blog_name: p.creator.blogName },
+    })),
+  };
+  return JSON.stringify(feed, null, 2) + "\n";
+}
+
+/** Write <pathBase>.xml, .atom and .json under feeds/. */
+async function writeFeedSet(pathBase: string, info: FeedInfo, posts: FeedPost[]): Promise<void> {
+  const file = join(FEEDS_DIR, pathBase);
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(`${file}.xml`, toRss(info, posts), "utf-8");
+  await writeFile(`${file}.atom`, toAtom(info, posts, `urn:orange-tpot:feed:${pathBase}`), "utf-8");
+  await writeFile(`${file}.json`, toJsonFeed(info, posts), "utf-8");
+}
+
+async function main(): Promise<void> {
+  const { limit, baseUrl, title } = parseArgs(process.argv.slice(2));
+  const entries = await readdir(SUBREPOS_DIR, { withFileTypes: true }).catch(() => []);
+  const dirs = entries.filter((e) => e.isDirectory() && !e.name.startsWith(".")).sort((a, b) => a.name.localeCompare(b.name));
+
+  const all: FeedPost[] = [];
+  let creators = 0;
+  for (const d of dirs) {
+    const dir = join(SUBREPOS_DIR, d.name);
+    let creator: CreatorJson;
+    try {
+      creator = JSON.parse(await readFile(join(dir, "creator.json"), "utf-8")) as CreatorJson;
+    } catch {
+      continue;
+    }
+    const posts = await readCreatorPosts(dir, creator, d.name);
+    const slug = creator.slug || d.name;
+    const name = creator.displayName || slug;
+    await writeFeedSet(
+      `creators/${slug}`,
+      {
+        title: creator.blogName || name,
+        description: `Mirror of ${name}'s archived posts`,
+        homeUrl: creator.blogUrl || null,
+        selfBase: baseUrl ? `${baseUrl}/creators/${slug}` : null,
+      },
+      posts.slice(0, limit)
+    );
+    all.push(...posts.slice(0, limit));
+    creators++;
+  }
+
+  const latest = newestFirst(all).slice(0, limit);
+  await writeFeedSet(
+    "all",
+    { title, description: `Latest posts from ${creators} creator(s)`, homeUrl: baseUrl, selfBase: baseUrl ? `${baseUrl}/all` : null },
+    latest
+  );
+  console.log(`Wrote feeds/all.{xml,atom,json} (${latest.length} item(s)) and ${creators} creator mirror feed(s)`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -1,42 +1,169 @@
 /**
- * Regenerate creators/manifest.json from subrepos (or from repos.json URLs).
- * Run from index repo root. If subrepos/<slug> exist, read creator.json and metadata count.
- * Optionally: if creators/repos.json has repo URLs and no subrepos, fetch creator.json via raw GitHub URL.
+ * Regenerate creators/manifest.json from subrepos and creators/repos.json.
+ * Run from index repo root. If subrepos/<slug> exist, read creator.json, metadata/*.json (post dates) and
+ * posts/*.md (word counts, see post-stats.ts); the repo URL comes from the matching creators/repos.json entry.
+ * repos.json entries without a subrepo are reported and keep their previous manifest entry. With --remote, every
+ * entry is fetched from raw content instead: <raw base>/<owner>/<repo>/<ref>/creator.json and stats.json (written by
+ * the creator repo's sync).
+ * The raw base defaults to https://raw.githubusercontent.com; override with --raw-base-url or ORANGE_TPOT_RAW_BASE_URL
+ * (e.g. a local static server), and the ref (default HEAD) with ORANGE_TPOT_RAW_REF.
+ * Usage: bun run update-manifest [-- --remote] [-- --raw-base-url <url>]
  */
 
 import { readFile, readdir, writeFile } from "node:fs/promises";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
+import { computePostStats, type PostStats } from "./post-stats";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const ROOT = join(__dirname, "..");
 const SUBREPOS_DIR = join(ROOT, "subrepos");
 const CREATORS_DIR = join(ROOT, "creators");
 
+const DEFAULT_RAW_BASE_URL = "https://raw.githubusercontent.com";
+
 interface CreatorJson {
   displayName: string;
   blogName?: string | null;
   blogUrl?: string | null;
   followUrl?: string | null;
+  imageUrl?: string | null;
   feedUrls?: string[];
   slug: string;
   hexId?: string;
+  platform?: string;
+  /** Previous slugs (rename-creator) */
+  aliases?: string[];
 }
 
 interface ManifestEntry {
   slug: string;
+  /** Stable 32-char hex creator id from creator.json (joins with data/creators.json) */
+  hexId: string | null;
   displayName: string;
+  blogName: string | null;
   blogUrl: string | null;
   followUrl: string | null;
+  imageUrl: string | null;
+  platform: string | null;
   repo: string | null;
+  /** Previous slugs that still refer to this creator */
+  aliases: string[];
+  /** Most recent post publish / edit time (ISO 8601) */
   lastUpdated: string | null;
   postCount: number;
+  /** Oldest and newest published date (ISO 8601) across posts with a date */
+  firstPostDate: string | null;
+  latestPostDate: string | null;
+  wordCount: number;
+  /** wordCount / postCount, rounded */
+  averageWordCount: number;
+}
+
+type ReposEntry = string | { url: string; slug?: string; aliases?: string[] };
+
+interface RepoEntry {
+  slug: string;
+  url: string;
+  aliases: string[];
+}
+
+const EMPTY_STATS: PostStats = {
+  postCount: 0,
+  firstPostDate: null,
+  latestPostDate: null,
+  lastUpdated: null,
+  wordCount: 0,
+  averageWordCount: 0,
+};
+
+/** A repos.json entry that could not be turned into a manifest entry. */
+interface EntryError {
+  slug: string;
+  url: string;
+  error: string;
+}
+
+function parseArgs(argv: string[]): { remote: boolean; rawBaseUrl: string } {
+  let remote = false;
+  let rawBaseUrl = process.env?.ORANGE_TPOT_RAW_BASE_URL || DEFAULT_RAW_BASE_URL;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--remote") remote = true;
+    else if (argv[i] === "--raw-base-url" && argv[i + 1]) rawBaseUrl = argv[++i];
+  }
+  return { remote, rawBaseUrl: rawBaseUrl.replace(/\/$/, "") };
+}
+
+function slugFromRepoUrl(url: string): string {
+  return url.replace(/\/$/, "").split("/").pop()?.replace(/\.git$/, "") || url;
+}
+
+/** creators/repos.json as { slug, url, aliases } (entry slug, else the last path segment of the URL). */
+async function readRepoEntries(): Promise<RepoEntry[]> {
+  const out: RepoEntry[] = [];
+  try {
+    const raw = JSON.parse(await readFile(join(CREATORS_DIR, "repos.json"), "utf-8")) as ReposEntry[];
+    if (!Array.isArray(raw)) return out;
+    for (const entry of raw) {
+      const url = typeof entry === "string" ? entry : entry?.url;
+      if (!url) continue;
+      const slug = (typeof entry === "string" ? undefined : entry.slug) || slugFromRepoUrl(url);
+      const aliases = typeof entry === "string" || !Array.isArray(entry.aliases) ? [] : entry.aliases;
+      if (!out.some((e) => e.slug === slug)) out.push({ slug, url, aliases });
+    }
+  } catch {
+    // no repos.json
+  }
+  return out;
+}
+
+/** <rawBaseUrl>/<owner>/<repo>/<ref> for a repo URL like https://github.com/owner/repo(.git), or null. */
+function rawContentBase(repoUrl: string, rawBaseUrl: string): string | null {
+  let parts: string[];
+  try {
+    parts = new URL(repoUrl).pathname.replace(/\.git$/, "").split("/").filter(Boolean);
+  } catch {
+    return null;
+  }
+  if (parts.length < 2) return null;
+  const ref = process.env?.ORANGE_TPOT_RAW_REF || "HEAD";
+  return `${rawBaseUrl}/${parts.slice(-2).join("/")}/${ref}`;
+}
+
+/**
+ * The index's slug (fallbackSlug) wins over creator.json when creator.json still has a slug the index renamed away
+ * from (a creator repo not yet updated after rename-creator).
+ */
+function toManifestEntry(creator: CreatorJson, fallbackSlug: string, repo: RepoEntry | null, stats: PostStats): ManifestEntry {
+  const indexAliases = repo?.aliases ?? [];
+  const slug = creator.slug && !indexAliases.includes(creator.slug) ? creator.slug : fallbackSlug;
+  const aliases = [...new Set([...(creator.aliases ?? []), ...indexAliases])].filter((a) => a && a !== slug);
+  return {
+    slug,
+    hexId: creator.hexId || null,
+    displayName: creator.displayName || fallbackSlug,
+    blogName: creator.blogName || null,
+    blogUrl: creator.blogUrl ?? null,
+    followUrl: creator.followUrl ?? null,
+    imageUrl: creator.imageUrl || null,
+    platform: creator.platform ?? null,
+    repo: repo?.url ?? null,
+    aliases,
+    lastUpdated: stats.lastUpdated,
+    postCount: stats.postCount,
+    firstPostDate: stats.firstPostDate,
+    latestPostDate: stats.latestPostDate,
+    wordCount: stats.wordCount,
+    averageWordCount: stats.averageWordCount,
+  };
 }
 
-async function fromSubrepos(): Promise<ManifestEntry[]> {
+/** Manifest entries for checked-out subrepos, plus every directory name / slug they cover. */
+async function fromSubrepos(repoEntries: Map<string, RepoEntry>): Promise<{ manifest: ManifestEntry[]; covered: Set<string> }> {
   const entries = await readdir(SUBREPOS_DIR, { withFileTypes: true }).catch(() => []);
   const dirs = entries.filter((e) => e.isDirectory());
   const manifest: ManifestEntry[] = [];
+  const covered = new Set<string>();
 
   for (const d of dirs) {
     const creatorPath = join(SUBREPOS_DIR, d.name, "creator.json");
@@ -47,29 +174,106 @@ async function fromSubrepos(): Promise<ManifestEntry[]> {
     } catch {
       continue;
     }
-    const metaDir = join(SUBREPOS_DIR, d.name, "metadata");
-    const metaFiles = await readdir(metaDir).catch(() => []);
-    const postCount = metaFiles.filter((f) => f.endsWith(".json")).length;
-
-    manifest.push({
-      slug: creator.slug ?? d.name,
-      displayName: creator.displayName ?? d.name,
-      blogUrl: creator.blogUrl ?? null,
-      followUrl: creator.followUrl ?? null,
-      repo: null,
-      lastUpdated: null,
-      postCount,
-    });
+    const slug = creator.slug || d.name;
+    const stats = await computePostStats(join(SUBREPOS_DIR, d.name));
+    manifest.push(toManifestEntry(creator, d.name, repoEntries.get(slug) ?? repoEntries.get(d.name) ?? null, stats));
+    covered.add(slug);
+    covered.add(d.name);
   }
 
-  return manifest.sort((a, b) => a.slug.localeCompare(b.slug));
+  return { manifest, covered };
+}
+
+/**
+ * Manifest entries for repos.json entries fetched from raw content. creator.json is required; a missing stats.json
+ * (repo not synced since stats were added) gives zero counts and a warning.
+ */
+async function fromRemote(
+  entries: RepoEntry[],
+  rawBaseUrl: string
+): Promise<{ manifest: ManifestEntry[]; errors: EntryError[] }> {
+  const manifest: ManifestEntry[] = [];
+  const errors: EntryError[] = [];
+  for (const entry of entries) {
+    const { slug, url } = entry;
+    const base = rawContentBase(url, rawBaseUrl);
+    if (!base) {
+      errors.push({ slug, url, error: "cannot derive owner/repo from URL" });
+      continue;
+    }
+    let creator: CreatorJson;
+    try {
+      const res = await fetch(`${base}/creator.json`);
+      if (!res.ok) throw new Error(`creator.json returned ${res.status}`);
+      creator = (await res.json()) as CreatorJson;
+    } catch (err) {
+      errors.push({ slug, url, error: err instanceof Error ? err.message : String(err) });
+      continue;
+    }
+    let stats = EMPTY_STATS;
+    try {
+      const res = await fetch(`${base}/stats.json`);
+      if (!res.ok) throw new Error(`stats.json returned ${res.status}`);
+      stats = { ...EMPTY_STATS, ...((await res.json()) as Partial<PostStats>) };
+    } catch (err) {
+      console.warn(`${slug}: no stats (${err instanceof Error ? err.message : err}); post counts left at 0`);
+    }
+    manifest.push(toManifestEntry(creator, slug, entry, stats));
+  }
+  return { manifest, errors };
+}
+
+/** Previous manifest entries by slug, kept for repos that fail to fetch this run. */
+async function readPreviousManifest(): Promise<Map<string, ManifestEntry>> {
+  try {
+    const raw = JSON.parse(await readFile(join(CREATORS_DIR, "manifest.json"), "utf-8")) as ManifestEntry[];
+    return new Map(Array.isArray(raw) ? raw.map((e) => [e.slug, e]) : []);
+  } catch {
+    return new Map();
+  }
 }
 
 async function main() {
-  const manifest = await fromSubrepos();
+  const { remote, rawBaseUrl } = parseArgs(process.argv.slice(2));
+  const repoEntries = await readRepoEntries();
+  const bySlug = new Map(repoEntries.map((e) => [e.slug, e]));
+
+  const local = remote ? { manifest: [], covered: new Set<string>() } : await fromSubrepos(bySlug);
+  const fetched = remote ? await fromRemote(repoEntries, rawBaseUrl) : { manifest: [], errors: [] };
+  const missing: EntryError[] = remote
+    ? []
+    : repoEntries
+        .filter((e) => !local.covered.has(e.slug))
+        .map(({ slug, url }) => ({ slug, url, error: "no checked-out subrepo (run with --remote to fetch it)" }));
+
+  const manifest = [...local.manifest, ...fetched.manifest];
+  const previous = await readPreviousManifest();
+  const failed = [...fetched.errors, ...missing];
+  let kept = 0;
+  for (const e of failed) {
+    // A renamed creator's previous entry is still under its old slug
+    const aliases = bySlug.get(e.slug)?.aliases ?? [];
+    const prev = previous.get(e.slug) ?? aliases.map((a) => previous.get(a)).find(Boolean);
+    if (prev && !manifest.some((m) => m.slug === e.slug)) {
+      manifest.push({ ...prev, slug: e.slug, aliases: [...new Set([...(prev.aliases ?? []), ...aliases, prev.slug])].filter((a) => a !== e.slug) });
+      kept++;
+    }
+  }
+  manifest.sort((a, b) => a.slug.localeCompare(b.slug));
+
   const manifestPath = join(CREATORS_DIR, "manifest.json");
   await writeFile(manifestPath, JSON.stringify(manifest, null, 2), "utf-8");
-  console.log(`Wrote ${manifest.length} creator(s) to creators/manifest.json`);
+  console.log(
+    `Wrote ${manifest.length} creator(s) to creators/manifest.json (${local.manifest.length} from subrepos, ${fetched.manifest.length} fetched)`
+  );
+
+  if (failed.length > 0) {
+    const what = remote ? "Failed to fetch" : "Missing subrepos for";
+    console.error(`\n${what} ${failed.length} repo(s)${kept ? ` (kept ${kept} previous entr${kept === 1 ? "y" : "ies"})` : ""}:`);
+    for (const e of failed) console.error(`  ${e.slug} (${e.url}): ${e.error}`);
+    // Only a run that produced no entries at all (local, fetched or kept) fails
+    if (manifest.length === 0) process.exit(1);
+  }
 }
 
 main();
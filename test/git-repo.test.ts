@@ -0,0 +1,84 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdtemp, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { creatorRepoUrl, initCreatorGitRepo, localRepoPath } from "../src/git-repo";
+
+let work: string;
+
+function git(cwd: string, args: string[]): string {
+  const res = spawnSync("git", args, { cwd, encoding: "utf-8" });
+  if (res.status !== 0) throw new Error(`git ${args.join(" ")}: ${res.stderr}`);
+  return res.stdout.trim();
+}
+
+beforeAll(() => {
+  // Commits need an identity; don't depend on the machine's git config
+  process.env.GIT_AUTHOR_NAME = process.env.GIT_COMMITTER_NAME = "Test";
+  process.env.GIT_AUTHOR_EMAIL = process.env.GIT_COMMITTER_EMAIL = "test@example.com";
+});
+
+beforeEach(async () => {
+  work = await mkdtemp(join(tmpdir(), "orange-tpot-git-"));
+});
+
+afterEach(async () => {
+  await rm(work, { recursive: true, force: true });
+});
+
+describe("localRepoPath / creatorRepoUrl", () => {
+  test("treats paths and file:// URLs as local, hosts as remote", () => {
+    expect(localRepoPath("/srv/git")).toBe("/srv/git");
+    expect(localRepoPath("file:///srv/git")).toBe("/srv/git");
+    expect(localRepoPath("https://github.com/org")).toBeNull();
+    expect(localRepoPath("git@github.com:org")).toBeNull();
+  });
+
+  test("appends the slug to the base", () => {
+    expect(creatorRepoUrl("https://github.com/org/", "jane-doe")).toBe("https://github.com/org/jane-doe");
+    expect(creatorRepoUrl("/srv/git", "jane-doe")).toBe("/srv/git/jane-doe");
+  });
+});
+
+describe("initCreatorGitRepo with a local bare-repo base", () => {
+  test("commits, creates the bare repo, pushes, and can be cloned", async () => {
+    const repoDir = join(work, "jane-doe");
+    await mkdir(repoDir, { recursive: true });
+    await writeFile(join(repoDir, "creator.json"), '{ "slug": "jane-doe" }\n', "utf-8");
+    const remote = creatorRepoUrl(join(work, "remotes"), "jane-doe");
+
+    const actions = await initCreatorGitRepo(repoDir, { remoteUrl: remote });
+    expect(actions).toEqual(["git init", "initial commit", `origin ${remote}`, `bare repo ${remote}`, "pushed main"]);
+    expect(git(remote, ["rev-parse", "--is-bare-repository"])).toBe("true");
+    expect(git(remote, ["rev-parse", "main"])).toBe(git(repoDir, ["rev-parse", "HEAD"]));
+
+    const clone = join(work, "clone");
+    git(work, ["clone", "-q", remote, clone]);
+    expect(await readFile(join(clone, "creator.json"), "utf-8")).toBe('{ "slug": "jane-doe" }\n');
+  });
+
+  test("is a no-op when re-run without changes, and pushes new commits", async () => {
+    const repoDir = join(work, "jane-doe");
+    await mkdir(repoDir, { recursive: true });
+    await writeFile(join(repoDir, "README.md"), "# Jane\n", "utf-8");
+    const remote = join(work, "remotes", "jane-doe");
+    await initCreatorGitRepo(repoDir, { remoteUrl: remote });
+
+    expect(await initCreatorGitRepo(repoDir, { remoteUrl: remote })).toEqual([]);
+
+    await writeFile(join(repoDir, "README.md"), "# Jane Doe\n", "utf-8");
+    expect(await initCreatorGitRepo(repoDir, { remoteUrl: remote })).toEqual(["commit scaffold changes", "pushed main"]);
+    expect(git(remote, ["rev-parse", "main"])).toBe(git(repoDir, ["rev-parse", "HEAD"]));
+  });
+
+  test("without a remote, only commits", async () => {
+    const repoDir = join(work, "solo");
+    await mkdir(repoDir, { recursive: true });
+    await writeFile(join(repoDir, "a.txt"), "a\n", "utf-8");
+    expect(await initCreatorGitRepo(repoDir)).toEqual(["git init", "initial commit"]);
+    expect(existsSync(join(repoDir, ".git"))).toBe(true);
+    expect(spawnSync("git", ["remote"], { cwd: repoDir, encoding: "utf-8" }).stdout.trim()).toBe("");
+  });
+});
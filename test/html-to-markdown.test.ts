@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { htmlToMarkdown, looksLikeHtml } from "../templates/creator/scripts/html-to-markdown";
+
+/** Each <name>.html in the fixtures directory converts to <name>.md (without the file's trailing newline). */
+const FIXTURES = join(import.meta.dir, "fixtures", "html-to-markdown");
+const cases = readdirSync(FIXTURES)
+  .filter((f) => f.endsWith(".html"))
+  .map((f) => f.replace(/\.html$/, ""));
+
+describe("htmlToMarkdown fixtures", () => {
+  test.each(cases)("%s", (name) => {
+    const html = readFileSync(join(FIXTURES, `${name}.html`), "utf-8");
+    const expected = readFileSync(join(FIXTURES, `${name}.md`), "utf-8").replace(/\n$/, "");
+    expect(htmlToMarkdown(html)).toBe(expected);
+  });
+});
+
+describe("htmlToMarkdown", () => {
+  test("escapes heading markers only where the text starts a line", () => {
+    expect(htmlToMarkdown("<p>a_b</p>")).toBe("a\\_b");
+    expect(htmlToMarkdown("<p><em>x</em> # y</p>")).toBe("_x_ # y");
+    expect(htmlToMarkdown("<p>x<br># y</p>")).toBe("x  \n\\# y");
+  });
+
+  test("looksLikeHtml only matches markup", () => {
+    expect(looksLikeHtml("<p>Hello</p>")).toBe(true);
+    expect(looksLikeHtml("Plain text with 2 < 3")).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pendingMigrations, runMigrations } from "../src/migrations";
+
+let work: string;
+
+beforeEach(async () => {
+  work = await mkdtemp(join(tmpdir(), "orange-tpot-migrations-"));
+});
+
+afterEach(async () => {
+  await rm(work, { recursive: true, force: true });
+});
+
+describe("migrations", () => {
+  test("pendingMigrations runs versions after from up to to", () => {
+    expect(pendingMigrations("creator", "0.1.2", "0.1.3").map((m) => m.id)).toEqual(["creator-json-fields"]);
+    expect(pendingMigrations("creator", "0.1.3", "0.2.0")).toEqual([]);
+    expect(pendingMigrations("index", null, "main").map((m) => m.id)).toEqual(["repos-json-objects"]);
+  });
+
+  test("creator-json-fields adds defaults once", async () => {
+    const dir = join(work, "creator");
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "creator.json"), JSON.stringify({ displayName: "Jane", blogUrl: "https://jane.substack.com/" }), "utf-8");
+
+    const [first] = await runMigrations(dir, "creator", "0.1.2", "0.1.3");
+    expect(first!.changes).toEqual([
+      'creator.json: add platform = "substack"',
+      'creator.json: add fetcher = "blog-toolkit"',
+      "creator.json: add keepRevisions = false",
+    ]);
+    expect(JSON.parse(await readFile(join(dir, "creator.json"), "utf-8"))).toMatchObject({
+      displayName: "Jane",
+      platform: "substack",
+      fetcher: "blog-toolkit",
+      keepRevisions: false,
+    });
+    const [again] = await runMigrations(dir, "creator", "0.1.2", "0.1.3");
+    expect(again!.changes).toEqual([]);
+  });
+
+  test("repos-json-objects turns URL strings into objects, and only reports with dryRun", async () => {
+    await mkdir(join(work, "creators"), { recursive: true });
+    const path = join(work, "creators", "repos.json");
+    await writeFile(path, JSON.stringify(["https://github.com/org/jane-doe"]), "utf-8");
+    const [dry] = await runMigrations(work, "index", "0.1.2", "0.1.3", { dryRun: true });
+    expect(dry!.changes).toHaveLength(1);
+    expect(JSON.parse(await readFile(path, "utf-8"))).toEqual(["https://github.com/org/jane-doe"]);
+
+    await runMigrations(work, "index", "0.1.2", "0.1.3");
+    expect(JSON.parse(await readFile(path, "utf-8"))).toEqual([{ url: "https://github.com/org/jane-doe", slug: "jane-doe" }]);
+  });
+});
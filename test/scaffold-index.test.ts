@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { mkdtemp, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { isValidSlug, removeCreatorFromIndex, renameCreatorInIndex } from "../src/scaffold-index";
+
+let indexDir: string;
+
+beforeEach(async () => {
+  indexDir = await mkdtemp(join(tmpdir(), "orange-tpot-index-"));
+  await mkdir(join(indexDir, "creators"), { recursive: true });
+  await writeFile(
+    join(indexDir, "creators", "repos.json"),
+    JSON.stringify([{ url: "https://github.com/org/jane-doe", slug: "jane-doe" }]),
+    "utf-8"
+  );
+  await mkdir(join(indexDir, "subrepos", "jane-doe"), { recursive: true });
+  await writeFile(join(indexDir, "subrepos", "jane-doe", "creator.json"), JSON.stringify({ slug: "jane-doe" }), "utf-8");
+});
+
+afterEach(async () => {
+  await rm(indexDir, { recursive: true, force: true });
+});
+
+describe("isValidSlug", () => {
+  test("accepts lowercase words joined by single hyphens", () => {
+    for (const slug of ["jane", "jane-doe", "jane-doe-3f9a1c", "a1"]) expect(isValidSlug(slug)).toBe(true);
+  });
+
+  test("rejects path segments and other characters", () => {
+    for (const slug of ["", ".", "..", "a/b", "../x", "Jane", "jane--doe", "-jane", "jane-", "jane doe", "jane_doe"]) {
+      expect(isValidSlug(slug)).toBe(false);
+    }
+  });
+});
+
+describe("removeCreatorFromIndex", () => {
+  test("refuses slugs that escape subrepos/", async () => {
+    for (const slug of ["..", ".", "jane-doe/..", "../creators"]) {
+      await expect(removeCreatorFromIndex(indexDir, slug)).rejects.toThrow("not a valid slug");
+    }
+    expect(existsSync(join(indexDir, "subrepos", "jane-doe"))).toBe(true);
+    expect(existsSync(join(indexDir, "creators", "repos.json"))).toBe(true);
+  });
+
+  test("removes the repos.json entry and the subrepo directory", async () => {
+    const actions = await removeCreatorFromIndex(indexDir, "jane-doe");
+    expect(actions).toEqual(["remove 1 entry from creators/repos.json", "delete subrepos/jane-doe/"]);
+    expect(existsSync(join(indexDir, "subrepos", "jane-doe"))).toBe(false);
+    expect(JSON.parse(await readFile(join(indexDir, "creators", "repos.json"), "utf-8"))).toEqual([]);
+  });
+
+  test("changes nothing with dryRun", async () => {
+    expect(await removeCreatorFromIndex(indexDir, "jane-doe", { dryRun: true })).toHaveLength(2);
+    expect(existsSync(join(indexDir, "subrepos", "jane-doe"))).toBe(true);
+  });
+});
+
+describe("renameCreatorInIndex", () => {
+  test("validates both slugs", async () => {
+    await expect(renameCreatorInIndex(indexDir, "..", "jane")).rejects.toThrow("not a valid slug");
+    await expect(renameCreatorInIndex(indexDir, "jane-doe", "../jane")).rejects.toThrow("not a valid slug");
+    expect(existsSync(join(indexDir, "subrepos", "jane-doe"))).toBe(true);
+  });
+
+  test("moves the subrepo and keeps the old slug as an alias", async () => {
+    await renameCreatorInIndex(indexDir, "jane-doe", "jane-doe-blog");
+    expect(existsSync(join(indexDir, "subrepos", "jane-doe-blog"))).toBe(true);
+    const repos = JSON.parse(await readFile(join(indexDir, "creators", "repos.json"), "utf-8"));
+    expect(repos).toEqual([{ url: "https://github.com/org/jane-doe", slug: "jane-doe-blog", aliases: ["jane-doe"] }]);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseQuery, searchPosts, tokenize } from "../src/search";
+
+let indexDir: string;
+
+async function writePost(slug: string, name: string, body: string, meta: Record<string, unknown> = {}): Promise<void> {
+  await mkdir(join(indexDir, "subrepos", slug, "posts"), { recursive: true });
+  await mkdir(join(indexDir, "subrepos", slug, "metadata"), { recursive: true });
+  await writeFile(join(indexDir, "subrepos", slug, "posts", `${name}.md`), body, "utf-8");
+  await writeFile(join(indexDir, "subrepos", slug, "metadata", `${name}.json`), JSON.stringify(meta), "utf-8");
+}
+
+beforeEach(async () => {
+  indexDir = await mkdtemp(join(tmpdir(), "orange-tpot-search-"));
+  await writePost("alice", "gardens", "# Gardens\n\nNotes on walled gardens and open protocols.", {
+    title: "Gardens",
+    published: "2024-03-01",
+  });
+  await writePost("bob", "protocols", "# Protocols\n\nOpen protocols beat walled gardens, mostly.", {
+    title: "Protocols",
+    published: "2023-06-10",
+  });
+});
+
+afterEach(async () => {
+  await rm(indexDir, { recursive: true, force: true });
+});
+
+describe("tokenize / parseQuery", () => {
+  test("lowercases words and keeps offsets", () => {
+    expect(tokenize("Open Protocols").map((t) => [t.term, t.start, t.end])).toEqual([
+      ["open", 0, 4],
+      ["protocols", 5, 14],
+    ]);
+  });
+
+  test("splits quoted phrases from terms", () => {
+    expect(parseQuery('gardens "open protocols"')).toEqual({ terms: ["gardens"], phrases: [["open", "protocols"]] });
+  });
+});
+
+describe("searchPosts", () => {
+  test("ranks matches and indexes new posts", async () => {
+    const result = await searchPosts(indexDir, "gardens");
+    expect(result.indexed).toMatchObject({ added: 2, documents: 2 });
+    expect(result.hits.map((h) => h.slug).sort()).toEqual(["alice", "bob"]);
+  });
+
+  test("filters by slug and date range", async () => {
+    expect((await searchPosts(indexDir, "protocols", { slugs: ["bob"] })).hits.map((h) => h.slug)).toEqual(["bob"]);
+    expect((await searchPosts(indexDir, "protocols", { since: "2024-01-01" })).hits.map((h) => h.slug)).toEqual(["alice"]);
+  });
+
+  test("requires phrases verbatim", async () => {
+    const result = await searchPosts(indexDir, '"walled gardens and"');
+    expect(result.hits.map((h) => h.slug)).toEqual(["alice"]);
+  });
+
+  test("indexes terms that are Object.prototype keys", async () => {
+    await writePost("carol", "js", "# JS\n\nThe constructor calls toString and hasOwnProperty on __proto__.");
+    for (const term of ["constructor", "tostring", "hasownproperty", "proto"]) {
+      expect((await searchPosts(indexDir, term)).hits.map((h) => h.slug)).toEqual(["carol"]);
+    }
+  });
+
+  test("re-reads only changed posts on later queries", async () => {
+    await searchPosts(indexDir, "gardens");
+    expect((await searchPosts(indexDir, "gardens")).indexed).toMatchObject({ added: 0, updated: 0, removed: 0 });
+
+    await rm(join(indexDir, "subrepos", "bob"), { recursive: true });
+    const result = await searchPosts(indexDir, "gardens");
+    expect(result.indexed).toMatchObject({ removed: 1, documents: 1 });
+    expect(result.hits.map((h) => h.slug)).toEqual(["alice"]);
+  });
+});
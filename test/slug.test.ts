@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test";
+import { slugify } from "../src/slug";
+
+describe("slugify", () => {
+  test("ASCII names: lowercase, spaces to hyphens, other punctuation removed", () => {
+    expect(slugify("Holly Elmore")).toBe("holly-elmore");
+    expect(slugify("  Dr. Jane   O'Neil ")).toBe("dr-jane-oneil");
+    expect(slugify("Rock & Roll -- Notes!")).toBe("rock-roll-notes");
+  });
+
+  test("accented and other Latin letters are transliterated", () => {
+    expect(slugify("Zoë Łukasz")).toBe("zoe-lukasz");
+    expect(slugify("Ångström Straße")).toBe("angstrom-strasse");
+    expect(slugify("Ærøskøbing")).toBe("aeroskobing");
+  });
+
+  test("Cyrillic and Greek are transliterated", () => {
+    expect(slugify("Щука")).toBe("shchuka");
+    expect(slugify("Σωκράτης")).toBe("sokratis");
+  });
+
+  test("CJK letters are replaced by a stable hash suffix", () => {
+    const slug = slugify("東京 notes");
+    expect(slug).toMatch(/^notes-[0-9a-f]{6}$/);
+    expect(slugify("東京 notes")).toBe(slug);
+    expect(slugify("大阪 notes")).not.toBe(slug);
+    expect(slugify("東京", { fallback: "creator" })).toMatch(/^creator-[0-9a-f]{6}$/);
+  });
+
+  test("empty and punctuation-only text gives the fallback", () => {
+    expect(slugify("")).toBe("item");
+    expect(slugify("   ", { fallback: "post" })).toBe("post");
+    expect(slugify("!!! ??? ...", { fallback: "creator" })).toBe("creator");
+    expect(slugify("--")).toBe("item");
+  });
+
+  test("maxLength counts the hash suffix and drops a trailing hyphen", () => {
+    expect(slugify("one two three four", { maxLength: 8 })).toBe("one-two");
+    const slug = slugify("a long title 東京", { maxLength: 13 });
+    expect(slug).toMatch(/^a-long-[0-9a-f]{6}$/);
+    expect(slug.length).toBeLessThanOrEqual(13);
+  });
+});
@@ -0,0 +1,105 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { fetchSubstackArchive, type SubstackArchiveState } from "../templates/creator/scripts/substack-archive";
+
+const FIXTURES = join(import.meta.dir, "fixtures", "substack");
+
+let server: ReturnType<typeof Bun.serve>;
+/** Paths requested from the stand-in, e.g. "/api/v1/archive?offset=2". */
+let requests: string[] = [];
+/** Slugs whose /api/v1/posts/{slug} request fails with a 500. */
+let failingSlugs = new Set<string>();
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      const archive = url.pathname === "/api/v1/archive";
+      requests.push(archive ? `${url.pathname}?offset=${url.searchParams.get("offset")}` : url.pathname);
+      if (archive) {
+        const file = Bun.file(join(FIXTURES, `archive-${url.searchParams.get("offset")}.json`));
+        return new Response((await file.exists()) ? await file.text() : "[]", { headers: { "Content-Type": "application/json" } });
+      }
+      const slug = url.pathname.match(/^\/api\/v1\/posts\/([^/]+)$/)?.[1];
+      if (!slug || failingSlugs.has(slug)) return new Response("error", { status: 500 });
+      return new Response(await readFile(join(FIXTURES, `post-${slug}.json`), "utf-8"), {
+        headers: { "Content-Type": "application/json" },
+      });
+    },
+  });
+  process.env.ORANGE_TPOT_SUBSTACK_API_BASE = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+  server.stop(true);
+  delete process.env.ORANGE_TPOT_SUBSTACK_API_BASE;
+});
+
+afterEach(() => {
+  requests = [];
+  failingSlugs = new Set();
+});
+
+const BLOG_URL = "https://example.substack.com";
+const fetchArchive = (state: SubstackArchiveState, knownUrls = new Set<string>()) =>
+  fetchSubstackArchive(BLOG_URL, { pageSize: 2, delayMs: 0, state, knownUrls });
+
+describe("fetchSubstackArchive", () => {
+  test("pages through the archive and fetches missing bodies", async () => {
+    const state: SubstackArchiveState = { offset: 0, complete: false, retrySlugs: [] };
+    const items = await fetchArchive(state);
+    expect(items.map((i) => i.title)).toEqual([
+      "Notes on attention",
+      "Paid subscribers only",
+      "A long walk",
+      "Missing body",
+      "Hello world",
+    ]);
+    expect(items.map((i) => i.content)).toEqual([
+      "<p>Attention is a resource.</p>",
+      "<p>The first few lines…</p>",
+      "<p>We walked for hours.</p>",
+      "<p>Back again.</p>",
+      "<p>First post.</p>",
+    ]);
+    expect(items.map((i) => i.paywalled)).toEqual([false, true, false, false, false]);
+    expect(state).toEqual({ offset: 5, complete: true, retrySlugs: [] });
+  });
+
+  test("resumes an unfinished backfill at the stored offset", async () => {
+    const state: SubstackArchiveState = { offset: 4, complete: false, retrySlugs: [] };
+    const items = await fetchArchive(state);
+    expect(items.map((i) => i.title)).toEqual(["Hello world"]);
+    expect(requests).toEqual(["/api/v1/archive?offset=4"]);
+    expect(state.complete).toBe(true);
+  });
+
+  test("after the backfill, stops at the first full page of known posts", async () => {
+    const known = new Set([
+      "https://example.substack.com/p/paid-subscribers-only",
+      "https://example.substack.com/p/a-long-walk",
+      "https://example.substack.com/p/missing-body",
+    ]);
+    const state: SubstackArchiveState = { offset: 5, complete: true, retrySlugs: [] };
+    const items = await fetchArchive(state, known);
+    expect(items.map((i) => i.title)).toEqual(["Notes on attention"]);
+    expect(requests).toEqual(["/api/v1/archive?offset=0", "/api/v1/archive?offset=2"]);
+    expect(state.offset).toBe(5);
+  });
+
+  test("leaves out posts whose body fetch fails and retries them on the next run", async () => {
+    failingSlugs = new Set(["missing-body"]);
+    const state: SubstackArchiveState = { offset: 0, complete: false, retrySlugs: [] };
+    const first = await fetchArchive(state);
+    expect(first.map((i) => i.title)).not.toContain("Missing body");
+    expect(state.retrySlugs).toEqual(["missing-body"]);
+
+    failingSlugs = new Set();
+    const known = new Set(first.map((i) => i.link!));
+    const second = await fetchArchive(state, known);
+    expect(second.map((i) => [i.title, i.content])).toEqual([["Missing body", "<p>Back again.</p>"]]);
+    expect(state.retrySlugs).toEqual([]);
+  });
+});
@@ -0,0 +1,8 @@
+import { describe, expect, test } from "bun:test";
+import { syncTemplateScripts } from "../scripts/sync-template-scripts";
+
+describe("template script copies", () => {
+  test("templates/creator/scripts copies match src/ (run bun run sync-template-scripts)", async () => {
+    expect(await syncTemplateScripts()).toEqual([]);
+  });
+});
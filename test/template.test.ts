@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { collectTemplateFiles, escapingFor, isTemplatedFile, renderTemplate } from "../src/template";
+
+describe("escaping by file type", () => {
+  test("picks the escaping from the file name", () => {
+    expect(escapingFor("creator.json")).toBe("json");
+    expect(escapingFor(".github/workflows/sync-posts.yml")).toBe("yaml");
+    expect(escapingFor("config.yaml")).toBe("yaml");
+    expect(escapingFor("README.md")).toBe("none");
+    expect(isTemplatedFile("README.md")).toBe(true);
+    expect(isTemplatedFile("scripts/sync-posts.ts")).toBe(false);
+  });
+
+  test("escapes strings inside JSON quotes and writes other values as JSON", () => {
+    const context = { name: 'Holly "HE" Elmore\\', feeds: ["a", "b"], count: 3 };
+    expect(renderTemplate('{"name": "{{name}}", "feeds": {{feeds}}, "count": {{count}}}', context, { name: "creator.json" })).toBe(
+      '{"name": "Holly \\"HE\\" Elmore\\\\", "feeds": ["a","b"], "count": 3}'
+    );
+  });
+
+  test("quotes YAML scalars only when they would not read back as the same string", () => {
+    const render = (value: string) => renderTemplate("name: {{v}}", { v: value }, { name: "workflow.yml" });
+    expect(render("Holly Elmore")).toBe("name: Holly Elmore");
+    expect(render("yes")).toBe('name: "yes"');
+    expect(render("1.5")).toBe('name: "1.5"');
+    expect(render("key: value")).toBe('name: "key: value"');
+    expect(render("#tag")).toBe('name: "#tag"');
+  });
+
+  test("leaves Markdown values and triple-brace values unescaped", () => {
+    expect(renderTemplate('# {{name}}', { name: 'A "quoted" name' }, { name: "README.md" })).toBe('# A "quoted" name');
+    expect(renderTemplate('"{{{name}}}"', { name: 'a "b"' }, { name: "creator.json" })).toBe('"a "b""');
+  });
+});
+
+describe("renderTemplate", () => {
+  test("passes GitHub Actions expressions through and unescapes \\{{", () => {
+    const template = "token: ${{ secrets.GITHUB_TOKEN }}\nliteral: \\{{name}}\nname: {{name}}";
+    expect(renderTemplate(template, { name: "x" }, { name: "workflow.yml" })).toBe(
+      "token: ${{ secrets.GITHUB_TOKEN }}\nliteral: {{name}}\nname: x"
+    );
+  });
+
+  test("#if, #unless and comparisons pick a branch", () => {
+    const template = '{{#if platform == "substack"}}S{{else}}O{{/if}}{{#if followUrl}}F{{/if}}{{#unless followUrl}}N{{/unless}}';
+    expect(renderTemplate(template, { platform: "substack", followUrl: "https://x" })).toBe("SF");
+    expect(renderTemplate(template, { platform: "ghost", followUrl: "" })).toBe("ON");
+    expect(renderTemplate('{{#if platform != "ghost"}}yes{{/if}}', { platform: "wordpress" })).toBe("yes");
+  });
+
+  test("#each repeats its body with this, @index, @first, @last and object fields", () => {
+    expect(renderTemplate("{{#each urls}}{{@index}}:{{this}}{{#unless @last}},{{/unless}}{{/each}}", { urls: ["a", "b"] })).toBe(
+      "0:a,1:b"
+    );
+    expect(renderTemplate("{{#each people}}{{#if @first}}*{{/if}}{{name}} {{/each}}", { people: [{ name: "A" }, { name: "B" }] })).toBe(
+      "*A B "
+    );
+  });
+
+  test("a block tag alone on its line removes the line", () => {
+    const template = "a\n{{#if x}}\nb\n{{/if}}\nc\n";
+    expect(renderTemplate(template, { x: true })).toBe("a\nb\nc\n");
+    expect(renderTemplate(template, { x: false })).toBe("a\nc\n");
+  });
+
+  test("unknown variables and unbalanced blocks name the file and line", () => {
+    expect(() => renderTemplate("ok\n{{missing}}", {}, { name: "README.md" })).toThrow('README.md:2: unknown variable "missing"');
+    expect(() => renderTemplate("{{#if missing}}x{{/if}}", {}, { name: "a.md" })).toThrow('a.md:1: unknown variable "missing"');
+    expect(() => renderTemplate("x\n{{#each list}}", { list: [] }, { name: "a.md" })).toThrow("a.md:2: unclosed {{#each}}");
+  });
+});
+
+describe("collectTemplateFiles", () => {
+  let work: string;
+
+  beforeEach(async () => {
+    work = await mkdtemp(join(tmpdir(), "orange-tpot-template-"));
+    for (const [rel, content] of [
+      ["base/README.md", "base readme"],
+      ["base/scripts/sync-posts.ts", "base sync"],
+      ["overlay/README.md", "overlay readme"],
+      ["overlay/scripts/extra.ts", "extra"],
+    ]) {
+      await mkdir(join(work, rel, ".."), { recursive: true });
+      await writeFile(join(work, rel), content, "utf-8");
+    }
+  });
+
+  afterEach(async () => {
+    await rm(work, { recursive: true, force: true });
+  });
+
+  test("lists the built-in files sorted by path", async () => {
+    const files = await collectTemplateFiles(join(work, "base"));
+    expect([...files]).toEqual([
+      ["README.md", join(work, "base", "README.md")],
+      ["scripts/sync-posts.ts", join(work, "base", "scripts", "sync-posts.ts")],
+    ]);
+  });
+
+  test("overlay files replace built-in files with the same path and add new ones", async () => {
+    const files = await collectTemplateFiles(join(work, "base"), join(work, "overlay"));
+    expect([...files]).toEqual([
+      ["README.md", join(work, "overlay", "README.md")],
+      ["scripts/extra.ts", join(work, "overlay", "scripts", "extra.ts")],
+      ["scripts/sync-posts.ts", join(work, "base", "scripts", "sync-posts.ts")],
+    ]);
+  });
+
+  test("a missing overlay directory adds nothing", async () => {
+    const files = await collectTemplateFiles(join(work, "base"), join(work, "nope"));
+    expect(files.size).toBe(2);
+  });
+});
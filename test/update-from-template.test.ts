@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { appendFile, cp, mkdtemp, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { scaffoldIndexRepo } from "../src/scaffold-index";
+import { runUpdate, BASE_DIR, LOCK_FILE } from "../src/update-from-template";
+
+const TEMPLATES = join(import.meta.dir, "..", "templates");
+
+let work: string;
+let repo: string;
+let source: string;
+
+/** Replace the first occurrence of search in a file. */
+async function edit(path: string, search: string, replacement: string): Promise<void> {
+  const text = await readFile(path, "utf-8");
+  if (!text.includes(search)) throw new Error(`${search} not in ${path}`);
+  await writeFile(path, text.replace(search, replacement), "utf-8");
+}
+
+beforeEach(async () => {
+  work = await mkdtemp(join(tmpdir(), "orange-tpot-update-"));
+  repo = join(work, "index-repo");
+  source = join(work, "source");
+  await scaffoldIndexRepo(repo);
+  // A local template source (update --from) one version ahead
+  await mkdir(join(source, "templates"), { recursive: true });
+  await cp(join(TEMPLATES, "index"), join(source, "templates", "index"), { recursive: true });
+  await writeFile(join(source, "package.json"), JSON.stringify({ version: "0.2.0" }), "utf-8");
+});
+
+afterEach(async () => {
+  await rm(work, { recursive: true, force: true });
+});
+
+describe("runUpdate", () => {
+  test("scaffolding records the lock and the base copies", async () => {
+    const lock = JSON.parse(await readFile(join(repo, LOCK_FILE), "utf-8"));
+    expect(Object.keys(lock.files)).toContain("README.md");
+    expect(await readFile(join(repo, BASE_DIR, "README.md"), "utf-8")).toBe(await readFile(join(repo, "README.md"), "utf-8"));
+  });
+
+  test("replaces unedited files and keeps edited ones the template did not change", async () => {
+    await appendFile(join(source, "templates", "index", "scripts", "build-feeds.ts"), "// new in 0.2.0\n");
+    await appendFile(join(repo, "package.json"), "\n");
+    const result = await runUpdate(repo, { from: source });
+    const action = (path: string) => result.files.find((f) => f.path === path)?.action;
+    expect(result.version).toBe("0.2.0");
+    expect(action("scripts/build-feeds.ts")).toBe("updated");
+    expect(action("package.json")).toBe("kept");
+    expect(action("README.md")).toBe("unchanged");
+    expect(await readFile(join(repo, "scripts", "build-feeds.ts"), "utf-8")).toEndWith("// new in 0.2.0\n");
+    expect((await readFile(join(repo, ".orange-tpot-version"), "utf-8")).trim()).toBe("0.2.0");
+  });
+
+  test("three-way merges local edits with template changes against the stored base", async () => {
+    await edit(join(source, "templates", "index", "README.md"), "# Creator index\n", "# Creator index\n\nTemplate intro.\n");
+    await appendFile(join(repo, "README.md"), "\nLocal note.\n");
+    const result = await runUpdate(repo, { from: source });
+    expect(result.files.find((f) => f.path === "README.md")?.action).toBe("merged");
+    const readme = await readFile(join(repo, "README.md"), "utf-8");
+    expect(readme).toContain("Template intro.");
+    expect(readme).toEndWith("Local note.\n");
+    // The applied template becomes the next base
+    expect(await readFile(join(repo, BASE_DIR, "README.md"), "utf-8")).toBe(
+      await readFile(join(source, "templates", "index", "README.md"), "utf-8")
+    );
+  });
+
+  test("writes conflict markers and keeps the local copy when both sides change the same line", async () => {
+    await edit(join(source, "templates", "index", ".gitignore"), "site/", "public/");
+    await edit(join(repo, ".gitignore"), "site/", "dist/");
+    const result = await runUpdate(repo, { from: source });
+    expect(result.files.find((f) => f.path === ".gitignore")?.action).toBe("conflict");
+    const merged = await readFile(join(repo, ".gitignore"), "utf-8");
+    expect(merged).toContain("<<<<<<< local\ndist/");
+    expect(merged).toContain("public/\n>>>>>>> template 0.2.0");
+    expect(await readFile(join(repo, ".gitignore.orig"), "utf-8")).toStartWith("dist/");
+  });
+
+  test("writes nothing with dryRun", async () => {
+    await appendFile(join(source, "templates", "index", "scripts", "build-feeds.ts"), "// new\n");
+    const result = await runUpdate(repo, { from: source, dryRun: true });
+    const file = result.files.find((f) => f.path === "scripts/build-feeds.ts");
+    expect(file?.action).toBe("updated");
+    expect(file?.diff).toContain("+// new");
+    expect(await readFile(join(repo, "scripts", "build-feeds.ts"), "utf-8")).not.toContain("// new");
+    expect((await readFile(join(repo, ".orange-tpot-version"), "utf-8")).trim()).toBe("0.1.2");
+  });
+
+  test("leaves overlay files alone when updating without the overlay", async () => {
+    const overlayRepo = join(work, "overlay-repo");
+    const overlay = join(work, "overlay");
+    await mkdir(join(overlay, "index"), { recursive: true });
+    await writeFile(join(overlay, "index", ".gitignore"), "custom/\n", "utf-8");
+    await scaffoldIndexRepo(overlayRepo, { templateDir: overlay });
+    expect(JSON.parse(await readFile(join(overlayRepo, LOCK_FILE), "utf-8")).overlay).toEqual([".gitignore"]);
+
+    const result = await runUpdate(overlayRepo, { from: source });
+    expect(result.files.find((f) => f.path === ".gitignore")?.action).toBe("overlay");
+    expect(await readFile(join(overlayRepo, ".gitignore"), "utf-8")).toBe("custom/\n");
+
+    await writeFile(join(overlay, "index", ".gitignore"), "custom/\nmore/\n", "utf-8");
+    const withOverlay = await runUpdate(overlayRepo, { from: source, templateDir: overlay });
+    expect(withOverlay.files.find((f) => f.path === ".gitignore")?.action).toBe("updated");
+    expect(await readFile(join(overlayRepo, ".gitignore"), "utf-8")).toBe("custom/\nmore/\n");
+  });
+});